@@ -0,0 +1,1258 @@
+"use client";
+
+import React, {
+  useContext,
+  useRef,
+  useEffect,
+  useCallback,
+  useImperativeHandle,
+  useState,
+} from "react";
+import * as THREE from "three";
+import {
+  SliderImage,
+  getFitScale,
+  getImageIndex,
+  resolveSlideCount,
+} from "../lib/slider/images";
+import { useSlideImages } from "../lib/slider/useSlideImages";
+import {
+  ReducedMotionProp,
+  useReducedMotion,
+} from "../lib/slider/useReducedMotion";
+import {
+  GoToOptions,
+  NAVIGATION_DISTORTION,
+  SliderHandle,
+  getActiveImageIndex,
+  getAutoplayTarget,
+  getImageTarget,
+  getStepTarget,
+  getTrackProgress,
+} from "../lib/slider/navigation";
+import { SliderCallbacks, getSlideEventDetail } from "../lib/slider/events";
+import { SnapMode } from "../lib/slider/snap";
+import {
+  AutoplayProp,
+  createAutoplayClock,
+  getAutoplayDelay,
+  markInteraction,
+  resolveAutoplay,
+  tickAutoplay,
+} from "../lib/slider/autoplay";
+import { SliderMotion, createSliderMotion } from "../lib/slider/motion";
+import { PhysicsProp, resolvePhysics } from "../lib/slider/physics";
+import {
+  Orientation,
+  getPointerAxis,
+  getSlideAxis,
+  setSlideOffset,
+} from "../lib/slider/orientation";
+import { getKeyboardCommand, isEditableTarget } from "../lib/slider/keyboard";
+import {
+  PointerEffectsProp,
+  createPointerTracker,
+  getPlanePoint,
+  resolvePointerEffects,
+  stepPointerEffects,
+} from "../lib/slider/pointer";
+import {
+  CAMERA_DISTANCE,
+  closeLightbox,
+  createLightbox,
+  openLightbox,
+  stepLightbox,
+} from "../lib/slider/lightbox";
+import {
+  PointerGesture,
+  createPointerGesture,
+  getTouchActionClass,
+  isGestureTap,
+  updateGestureLock,
+} from "../lib/slider/gesture";
+import {
+  DEFAULT_INPUTS,
+  SliderInput,
+  getPointerInput,
+} from "../lib/slider/inputs";
+import {
+  SlideBreakpoints,
+  SlideLayout,
+  SlideSize,
+  SlideSizeOptions,
+  getSlideLayout,
+  isSameLayout,
+  resolveSlideSize,
+} from "../lib/slider/layout";
+import {
+  DEFAULT_PLACEHOLDER_COLOR,
+  SlideLoading,
+  SlideLoadingOptions,
+  createLoadingManager,
+  loadSlideTexture,
+} from "../lib/slider/loading";
+import { CaptionStyle, updateCaption } from "../lib/slider/captions";
+import { NavigationProp, resolveNavigation } from "../lib/slider/controls";
+import SliderNavigation, { SliderNavigationHandle } from "./SliderNavigation";
+import { SliderCanvasContext } from "./SliderCanvasProvider";
+import { FrameLoop, createFrameLoop } from "../lib/slider/frameLoop";
+import {
+  getSlideAnnouncement,
+  getSlidePositionLabel,
+} from "../lib/slider/a11y";
+import {
+  DistortionProp,
+  applyDistortion,
+  createDistortionUniforms,
+  resolveDistortion,
+  setEffectParams,
+} from "../lib/slider/effects";
+
+// Behind the page content in the fullscreen layout
+const FULLSCREEN_BACKGROUND = 0xe3e3db;
+
+// Longest step the per-frame transitions take, in seconds. The first frame
+// after the loop sleeps spans the whole sleep, which would finish them at once
+const MAX_STEP_TIME = 1 / 30;
+
+// Props Interface
+export interface SliderProps extends SliderCallbacks {
+  /** Receives the imperative controller (next, prev, goTo, …). */
+  ref?: React.Ref<SliderHandle>;
+  /** Images to display, in loop order. Default: /imgs/1.jpg … /imgs/{imagesAvailable}.jpg */
+  images?: SliderImage[];
+  slideWidth?: number;
+  slideHeight?: number;
+  gap?: number;
+  imageFitMode?: "contain" | "cover";
+  /** Scales slides and gap so exactly this many fit across the visible width (height when vertical). */
+  slidesPerView?: number;
+  /**
+   * Size overrides from a container width up, in CSS pixels, e.g.
+   * `{ 640: { slideWidth: 4, slidesPerView: 3 } }`. Applied in place on resize.
+   */
+  breakpoints?: SlideBreakpoints;
+  /** Optional: Number of slide planes, rounded up to a multiple of the image count. Default: 10 */
+  slideCount?: number;
+  /** Wrap around endlessly. When false each image shows once and the ends resist dragging. Default: true */
+  loop?: boolean;
+  /** @deprecated Pass `images` instead. Only used when `images` is omitted. */
+  imagesAvailable?: number;
+  /** Where momentum comes to rest after a drag is released. Default: 'none' */
+  snap?: SnapMode;
+  /** Advance by itself, pausing on interaction, hover and hidden tabs. Finite sliders rewind after the last slide. Default: false */
+  autoplay?: AutoplayProp;
+  /** Effect applied while the slider moves: a registered name or `{ type, ...params }`. Default: 'bulge' */
+  distortion?: DistortionProp;
+  /** Tuning preset, or overrides on top of one. Updates the running slider in place. Default: 'default' */
+  physics?: PhysicsProp;
+  /**
+   * Turns off distortion, momentum and autoplay, and makes navigation jump
+   * instead of glide. 'auto' follows `prefers-reduced-motion` live. Default: 'auto'
+   */
+  reducedMotion?: ReducedMotionProp;
+  /** Shown until a slide's image, or its `blurhash`/`thumbnail`, is ready. Default: '#1a1a1a' */
+  placeholderColor?: THREE.ColorRepresentation;
+  /** Image shown in place of one that fails to load. */
+  fallbackSrc?: string;
+  /** Builds the texture for a slide whose image (and `fallbackSrc`) failed to load. */
+  renderError?: (image: SliderImage) => THREE.Texture;
+  /** Pagination dots, progress bar and thumbnail strip. `true` shows dots and progress. Default: false */
+  navigation?: NavigationProp;
+  /** Renders HTML content that follows a slide, e.g. a title or a button. Called once per plane. */
+  renderCaption?: (slide: SliderImage, index: number) => React.ReactNode;
+  /**
+   * Per-frame opacity and transform for captions, from the slide's distance
+   * to the center and the distortion. The same values are exposed to CSS as
+   * `--slide-offset` and `--slide-distortion`.
+   */
+  captionStyle?: CaptionStyle;
+  /** Accessible name of the carousel region. Default: 'Image carousel' */
+  "aria-label"?: string;
+  /** Axis the slides are laid out and moved along. Default: 'horizontal' */
+  orientation?: Orientation;
+  /** Ways the user can move the slider. Default: ['drag', 'touch', 'keyboard'] */
+  inputs?: readonly SliderInput[];
+  /**
+   * 'contained' fills its parent's width at 16:9 and can draw through a
+   * SliderCanvasProvider. 'fullscreen' covers the viewport behind the page,
+   * with its own canvas. Default: 'contained'
+   */
+  layout?: "contained" | "fullscreen";
+  /**
+   * Clicking a slide expands it to fill the view. Escape, the close button or
+   * another click collapses it, and arrow keys move between slides meanwhile.
+   * Default: false
+   */
+  lightbox?: boolean;
+  /**
+   * Centers the distortion on the pointer, and adds a subtle bulge or tilt
+   * under a hovering cursor while the slider is at rest. Touch has no hover,
+   * so there the center follows the finger only while it is down. Off with
+   * reduced motion. Default: false
+   */
+  pointerEffects?: PointerEffectsProp;
+}
+
+const Slider: React.FC<SliderProps> = ({
+  // Destructure props with defaults
+  slideWidth: slideWidthProp = 3.0,
+  slideHeight: slideHeightProp = 1.5,
+  gap: gapProp = 0.1,
+  imageFitMode = "contain",
+  slidesPerView,
+  breakpoints,
+  images: imagesProp,
+  slideCount: slideCountProp,
+  imagesAvailable = 5,
+  snap = "none",
+  autoplay,
+  distortion = "bulge",
+  orientation = "horizontal",
+  inputs = DEFAULT_INPUTS,
+  layout: layoutMode = "contained",
+  lightbox: lightboxProp = false,
+  pointerEffects,
+  loop = true,
+  physics: physicsProp = "default",
+  reducedMotion = "auto",
+  placeholderColor = DEFAULT_PLACEHOLDER_COLOR,
+  fallbackSrc,
+  renderError,
+  renderCaption,
+  navigation,
+  captionStyle,
+  "aria-label": ariaLabel = "Image carousel",
+  ref,
+  onActiveSlideChange,
+  onSlideClick,
+  onDragStart,
+  onDragEnd,
+  onSettle,
+  onLoadProgress,
+  onLoadComplete,
+}) => {
+  const slideImages = useSlideImages(imagesProp, imagesAvailable);
+  // Latest callbacks, read by the loop and handlers without re-running setup
+  const callbacks = useRef<SliderCallbacks>({});
+  callbacks.current = {
+    onActiveSlideChange,
+    onSlideClick,
+    onDragStart,
+    onDragEnd,
+    onSettle,
+    onLoadProgress,
+    onLoadComplete,
+  };
+  // Texture loading reads these when each load starts or fails
+  const loadingOptions = useRef<SlideLoadingOptions>({ placeholderColor });
+  loadingOptions.current = { placeholderColor, fallbackSrc, renderError };
+  const loadingManagerRef = useRef<THREE.LoadingManager | null>(null);
+  if (!loadingManagerRef.current) {
+    loadingManagerRef.current = createLoadingManager(callbacks);
+  }
+  const loadingManager = loadingManagerRef.current;
+  const isReducedMotion = useReducedMotion(reducedMotion);
+  const reducedMotionRef = useRef(isReducedMotion);
+  reducedMotionRef.current = isReducedMotion;
+  // Reduced motion never moves by itself
+  const activeAutoplay = isReducedMotion ? false : autoplay;
+  const autoplayOptions = useRef(resolveAutoplay(activeAutoplay));
+  autoplayOptions.current = resolveAutoplay(activeAutoplay);
+  const activePointerEffects = isReducedMotion ? false : pointerEffects;
+  const pointerEffectsOptions = useRef(
+    resolvePointerEffects(activePointerEffects)
+  );
+  pointerEffectsOptions.current = resolvePointerEffects(activePointerEffects);
+  // Read by the handlers, so changing inputs doesn't rebuild the scene
+  const inputsRef = useRef(inputs);
+  inputsRef.current = inputs;
+  const isFullscreen = layoutMode === "fullscreen";
+  const lightboxEnabled = useRef(lightboxProp);
+  lightboxEnabled.current = lightboxProp;
+  // Set inside a SliderCanvasProvider, which then renders a contained
+  // slider. A fullscreen one sits behind the page and keeps its own canvas
+  const canvasContext = useContext(SliderCanvasContext);
+  const sharedCanvas = isFullscreen ? null : canvasContext;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const liveRegionRef = useRef<HTMLDivElement>(null);
+  const navigationRef = useRef<SliderNavigationHandle>(null);
+  const navigationOptions = resolveNavigation(navigation);
+  const captionRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const captionStyleRef = useRef(captionStyle);
+  captionStyleRef.current = captionStyle;
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const frameLoop = useRef<FrameLoop | null>(null); // Sleeps while idle
+
+  const raycaster = useRef(new THREE.Raycaster());
+  const mouse = useRef(new THREE.Vector2());
+  const viewportSize = useRef(new THREE.Vector2());
+
+  // Physics, read by the loop and handlers as they run
+  const physics = useRef(resolvePhysics(physicsProp));
+  physics.current = resolvePhysics(physicsProp);
+
+  // Motion engine, created once per instance and kept across prop changes
+  const motionRef = useRef<SliderMotion | null>(null);
+  if (!motionRef.current) {
+    motionRef.current = createSliderMotion(physics.current);
+  }
+  const motion = motionRef.current;
+  // Distortion effect; its uniforms are shared by every slide material
+  const { effect, params: effectParams } = resolveDistortion(distortion);
+  const distortionUniforms = useRef(
+    createDistortionUniforms(physics.current.maxDistortion)
+  );
+  // Parameter changes apply in place; a different effect rebuilds the slides
+  setEffectParams(distortionUniforms.current, effectParams);
+
+  // Slide size from the props, breakpoints and slidesPerView. It depends on
+  // the container, so the loop and handlers read the measured layout from a
+  // ref, and resizes apply in place
+  const size: SlideSize & SlideSizeOptions = {
+    slideWidth: slideWidthProp,
+    slideHeight: slideHeightProp,
+    gap: gapProp,
+    slidesPerView,
+  };
+  const sizeOptions = useRef(size);
+  sizeOptions.current = size;
+  const breakpointsRef = useRef(breakpoints);
+  breakpointsRef.current = breakpoints;
+  const slideLayout = useRef<SlideLayout>(
+    getSlideLayout(sizeOptions.current, orientation, null)
+  );
+  // A finite slider lays every image out once, so it never repeats them
+  const slideCount = loop
+    ? resolveSlideCount(slideImages.length, slideCountProp)
+    : slideImages.length;
+
+  // Mutable State Refs
+  const slides = useRef<THREE.Mesh[]>([]).current;
+  const dragStart = useRef(0);
+  const dragLast = useRef(0);
+  const lastTime = useRef(0);
+  const activeSlide = useRef(-1); // Plane index last reported as active
+  const isSettled = useRef(true);
+  const autoplayClock = useRef(createAutoplayClock());
+  const isHovering = useRef(false); // Pointer over a slide, pauses autoplay
+  const grabbedSlide = useRef<THREE.Mesh | null>(null); // Set while dragging
+  const lightbox = useRef(createLightbox()).current;
+  const pointer = useRef(createPointerTracker()).current;
+  const [isExpanded, setExpanded] = useState(false); // Shows the close button
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Scales a plane so its image fits the current slide shape
+  const fitSlide = useCallback(
+    (mesh: THREE.Mesh) => {
+      const { aspect } = mesh.userData;
+      if (!aspect) return;
+      const { slideWidth, slideHeight } = slideLayout.current;
+      const scale = getFitScale(aspect, slideWidth / slideHeight, imageFitMode);
+      mesh.scale.set(scale.x, scale.y, 1);
+    },
+    [imageFitMode]
+  );
+
+  const createSlide = useCallback(
+    (index: number) => {
+      const { slideWidth, slideHeight, slideUnit } = slideLayout.current;
+      const geometry = new THREE.PlaneGeometry(slideWidth, slideHeight, 32, 16);
+      const material = new THREE.MeshBasicMaterial({
+        side: THREE.DoubleSide,
+      });
+      applyDistortion(material, effect, distortionUniforms.current); // Distortion runs on the GPU
+      const mesh = new THREE.Mesh(geometry, material);
+      setSlideOffset(mesh, orientation, index * slideUnit);
+      const imageIndex = getImageIndex(index, slideImages.length);
+      const image = slideImages[imageIndex];
+      mesh.userData = {
+        index: index,
+        imageIndex: imageIndex,
+        aspect: 0, // Of the image, once known
+        loading: null as SlideLoading | null,
+      };
+      const applyFit = (imgAspect: number) => {
+        mesh.userData.aspect = imgAspect;
+        fitSlide(mesh);
+      };
+      // Size the plane up front when the caller knows the image dimensions
+      if (image.width && image.height) applyFit(image.width / image.height);
+      // Placeholder first, then a crossfade to the image or its fallback
+      mesh.userData.loading = loadSlideTexture(
+        material,
+        image,
+        loadingManager,
+        loadingOptions,
+        applyFit,
+        () => frameLoop.current?.wake()
+      );
+      sceneRef.current?.add(mesh);
+      slides.push(mesh);
+    },
+    [loadingManager, effect, slideImages, fitSlide, orientation]
+  );
+
+  // Animation loop: one frame, returning how long the loop may sleep after it
+  const animate = useCallback(
+    (time: number) => {
+      const deltaTime = lastTime.current
+        ? (time - lastTime.current) / 1000
+        : 0.016;
+      lastTime.current = time;
+      const stepTime = Math.min(deltaTime, MAX_STEP_TIME);
+      // No images yet, e.g. while they load: nothing to report. Clear what
+      // an earlier list drew, then sleep until new images rebuild the slides
+      if (slideImages.length === 0) {
+        if (rendererRef.current && sceneRef.current && cameraRef.current) {
+          rendererRef.current.render(sceneRef.current, cameraRef.current);
+        }
+        return Infinity;
+      }
+      const { slideUnit, slideLength } = slideLayout.current;
+      const totalLength = slides.length * slideUnit;
+      // Autoplay, timed by the loop clock so it pauses along with it
+      const autoplayPaused =
+        motion.isHeld ||
+        motion.isScrolling ||
+        (autoplayOptions.current?.pauseOnHover && isHovering.current) ||
+        lightbox.slide !== null ||
+        document.hidden;
+      if (autoplayOptions.current) {
+        const step = tickAutoplay(
+          autoplayClock.current,
+          autoplayOptions.current,
+          time,
+          deltaTime * 1000,
+          autoplayPaused
+        );
+        if (step !== 0) {
+          motion.navigate(
+            getAutoplayTarget(
+              motion.target,
+              slideUnit,
+              step,
+              slides.length,
+              loop
+            ),
+            { distortion: autoplayOptions.current.distortion }
+          );
+        }
+      }
+      const frame = motion.step(stepTime);
+      slides.forEach((slide, i) => {
+        slide.userData.loading?.step(stepTime);
+        const slideOffset = frame.slidePositions[i];
+        const wrapThreshold = totalLength / 2 + slideLength;
+        if (!loop || Math.abs(slideOffset) < wrapThreshold * 1.5) {
+          setSlideOffset(slide, orientation, slideOffset);
+        }
+      });
+
+      // While expanded, the lightbox follows navigation to the slide it heads
+      // for. The camera moves in on it as the bend unwinds
+      if (lightbox.open) {
+        lightbox.slide = getActiveImageIndex(
+          motion.target,
+          slideUnit,
+          slides.length,
+          loop
+        );
+      }
+      const lightboxFrame = cameraRef.current
+        ? stepLightbox(
+            lightbox,
+            slides,
+            cameraRef.current,
+            stepTime,
+            reducedMotionRef.current
+          )
+        : { progress: 0, idle: true };
+      const distortion = frame.distortion * (1 - lightboxFrame.progress);
+      distortionUniforms.current.uDistortion.value = distortion;
+      distortionUniforms.current.uVelocity.value = frame.velocity;
+      distortionUniforms.current.uTime.value = time / 1000;
+      // The hover effect only shows at rest, and never on an expanded slide
+      const pointerMoving = stepPointerEffects(
+        pointer,
+        distortionUniforms.current,
+        pointerEffectsOptions.current,
+        frame.idle && lightbox.slide === null
+      );
+
+      navigationRef.current?.setProgress(
+        getTrackProgress(frame.position, slideUnit, slideImages.length, loop)
+      );
+
+      // Lifecycle callbacks
+      const centeredSlide = getActiveImageIndex(
+        frame.position,
+        slideUnit,
+        slides.length,
+        loop
+      );
+      // Only the centered plane's video plays
+      slides.forEach((slide, i) =>
+        slide.userData.loading?.setPlaying(i === centeredSlide)
+      );
+      if (centeredSlide !== activeSlide.current) {
+        activeSlide.current = centeredSlide;
+        const detail = getSlideEventDetail(centeredSlide, slideImages);
+        if (liveRegionRef.current) {
+          liveRegionRef.current.textContent = getSlideAnnouncement(
+            detail.index,
+            slideImages
+          );
+        }
+        navigationRef.current?.setActiveIndex(detail.index);
+        callbacks.current.onActiveSlideChange?.(detail);
+      }
+      if (frame.settled && !isSettled.current) {
+        callbacks.current.onSettle?.(
+          getSlideEventDetail(centeredSlide, slideImages)
+        );
+      }
+      isSettled.current = frame.settled;
+
+      // A shared canvas draws the scene itself, after this update
+      if (rendererRef.current && sceneRef.current && cameraRef.current) {
+        rendererRef.current.render(sceneRef.current, cameraRef.current);
+      }
+      if (containerRef.current && cameraRef.current) {
+        // Captions follow their planes
+        viewportSize.current.set(
+          containerRef.current.clientWidth,
+          containerRef.current.clientHeight
+        );
+        captionRefs.current.forEach((element, i) => {
+          if (!element || !slides[i] || !cameraRef.current) return;
+          updateCaption(
+            element,
+            slides[i],
+            cameraRef.current,
+            viewportSize.current,
+            {
+              offset: frame.slidePositions[i] / slideUnit,
+              distortion,
+            },
+            captionStyleRef.current
+          );
+        });
+      }
+
+      // Keep drawing while anything changes; once idle, sleep until input
+      // or the next autoplay step
+      const animating = slides.some((slide) =>
+        slide.userData.loading?.isAnimating()
+      );
+      if (!frame.idle || !lightboxFrame.idle || pointerMoving || animating) {
+        return 0;
+      }
+      if (!autoplayOptions.current || autoplayPaused) return Infinity;
+      return getAutoplayDelay(
+        autoplayClock.current,
+        autoplayOptions.current,
+        time
+      );
+    },
+    [motion, slides, lightbox, pointer, slideImages, orientation, loop]
+  );
+
+  // Resolves the slide size for the container's current size
+  const measureLayout = useCallback(
+    () =>
+      getSlideLayout(
+        resolveSlideSize(
+          sizeOptions.current,
+          breakpointsRef.current,
+          containerRef.current?.clientWidth ?? 0
+        ),
+        orientation,
+        cameraRef.current
+      ),
+    [orientation]
+  );
+
+  // Applies a changed slide size to the running slider without rebuilding
+  // it. Motion rescales its position, so the same slide stays in view
+  const updateLayout = useCallback(() => {
+    if (!cameraRef.current) return;
+    const next = measureLayout();
+    if (isSameLayout(next, slideLayout.current)) return;
+    slideLayout.current = next;
+    slides.forEach((slide) => {
+      slide.geometry.dispose();
+      slide.geometry = new THREE.PlaneGeometry(
+        next.slideWidth,
+        next.slideHeight,
+        32,
+        16
+      );
+      fitSlide(slide);
+    });
+    motion.setLayout({
+      slideCount: slides.length,
+      slideUnit: next.slideUnit,
+      slideLength: next.slideLength,
+      loop,
+    });
+    frameLoop.current?.wake();
+  }, [motion, slides, loop, measureLayout, fitSlide]);
+
+  useEffect(() => {
+    motion.setSnapMode(snap);
+  }, [motion, snap]);
+
+  useEffect(() => {
+    motion.setReducedMotion(isReducedMotion);
+  }, [motion, isReducedMotion]);
+
+  // Size props and breakpoints apply in place as well
+  useEffect(() => {
+    updateLayout();
+  });
+
+  // Any prop may change what is drawn, so every render wakes the loop
+  useEffect(() => {
+    frameLoop.current?.wake();
+  });
+
+  // Physics changes reach the running loop without rebuilding the scene
+  useEffect(() => {
+    motion.setSettings(physics.current);
+    distortionUniforms.current.uMaxDistortion.value =
+      physics.current.maxDistortion;
+  }, [motion, physicsProp]);
+
+  // Glides a plane to the center, so navigation steps from it, and expands it
+  const expandSlide = useCallback(
+    (planeIndex: number) => {
+      markInteraction(autoplayClock.current);
+      motion.navigate(
+        getImageTarget(
+          motion.target,
+          slideLayout.current.slideUnit,
+          planeIndex,
+          slides.length,
+          loop
+        )
+      );
+      openLightbox(lightbox, planeIndex);
+      setExpanded(true);
+      frameLoop.current?.wake();
+    },
+    [motion, slides, lightbox, loop]
+  );
+
+  const collapseSlide = useCallback(() => {
+    // Focus stays with the slider rather than falling back to the page
+    if (document.activeElement === closeButtonRef.current) {
+      containerRef.current?.focus();
+    }
+    markInteraction(autoplayClock.current);
+    closeLightbox(lightbox);
+    setExpanded(false);
+    frameLoop.current?.wake();
+  }, [lightbox]);
+
+  // The close button takes focus, so Escape and Enter reach it at once
+  useEffect(() => {
+    if (isExpanded) closeButtonRef.current?.focus();
+  }, [isExpanded]);
+
+  // Dots and thumbnails navigate like the arrow keys, with a distortion kick
+  const selectImage = (index: number) => {
+    markInteraction(autoplayClock.current);
+    frameLoop.current?.wake();
+    motion.navigate(
+      getImageTarget(
+        motion.target,
+        slideLayout.current.slideUnit,
+        index,
+        slideImages.length,
+        loop
+      ),
+      { distortion: NAVIGATION_DISTORTION }
+    );
+  };
+
+  // Imperative Controller
+  useImperativeHandle(ref, (): SliderHandle => {
+    const imageCount = slideImages.length;
+    const slideUnit = () => slideLayout.current.slideUnit;
+    const moveTo = (target: number, options: GoToOptions = {}) => {
+      if (imageCount === 0) return; // Nothing to move to yet
+      const { animate: shouldAnimate = true } = options;
+      const distortion =
+        options.distortion ?? (shouldAnimate ? NAVIGATION_DISTORTION : 0);
+      markInteraction(autoplayClock.current);
+      motion.navigate(target, { animate: shouldAnimate, distortion });
+      frameLoop.current?.wake();
+    };
+    return {
+      next: (options) =>
+        moveTo(getStepTarget(motion.target, slideUnit(), 1), options),
+      prev: (options) =>
+        moveTo(getStepTarget(motion.target, slideUnit(), -1), options),
+      goTo: (index, options) =>
+        moveTo(
+          getImageTarget(motion.target, slideUnit(), index, imageCount, loop),
+          options
+        ),
+      getActiveIndex: () =>
+        getActiveImageIndex(motion.position, slideUnit(), imageCount, loop),
+      getProgress: () =>
+        getTrackProgress(motion.position, slideUnit(), imageCount, loop),
+    };
+  }, [motion, slideImages.length, loop]);
+
+  // Initialization and Event Listeners
+  useEffect(() => {
+    // Ensure refs are ready
+    if (!containerRef.current || !canvasRef.current) return;
+
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    // The container may not be laid out yet. The scene is built anyway, and
+    // the ResizeObserver below sizes it once it is
+    const currentWidth = container.clientWidth;
+    const currentHeight = container.clientHeight;
+    const aspectRatio =
+      currentWidth > 0 && currentHeight > 0 ? currentWidth / currentHeight : 1;
+
+    // --- Scene, Camera, Renderer Setup ---
+    // Scene
+    sceneRef.current = new THREE.Scene();
+    if (isFullscreen) {
+      sceneRef.current.background = new THREE.Color(FULLSCREEN_BACKGROUND);
+    }
+    // Camera
+    cameraRef.current = new THREE.PerspectiveCamera(45, aspectRatio, 0.1, 100);
+    cameraRef.current.position.z = CAMERA_DISTANCE;
+    // Renderer, unless a shared canvas draws this slider
+    if (!sharedCanvas) {
+      rendererRef.current = new THREE.WebGLRenderer({
+        canvas,
+        antialias: true,
+        alpha: true,
+      });
+      rendererRef.current.setSize(currentWidth, currentHeight);
+      rendererRef.current.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+      rendererRef.current.setClearColor(0x000000, 0);
+    }
+
+    // --- Create Slides & Initial Centering ---
+    slideLayout.current = measureLayout();
+    const { slideUnit, slideLength } = slideLayout.current;
+    slides.length = 0; // Clear before creating
+    // Use props directly here, they are stable within this effect run
+    const effectSlideCount = slideCount;
+    const effectTotalLength = effectSlideCount * slideUnit;
+    for (let i = 0; i < effectSlideCount; i++) {
+      createSlide(i); // createSlide uses prop values via closure
+    }
+    // Adjust the motion state based on props used for setup. Finite
+    // sliders start on the first slide
+    motion.setLayout({
+      slideCount: effectSlideCount,
+      slideUnit,
+      slideLength,
+      loop,
+    });
+    motion.jumpTo(loop ? -effectTotalLength / 2 : 0);
+    distortionUniforms.current.uSlideAxis.value.copy(getSlideAxis(orientation));
+    // The starting slide is not a change, so don't report it
+    activeSlide.current = getActiveImageIndex(
+      motion.position,
+      slideUnit,
+      slides.length,
+      loop
+    );
+    navigationRef.current?.setActiveIndex(
+      getImageIndex(activeSlide.current, slideImages.length)
+    );
+    isSettled.current = true;
+
+    // --- Event Handlers ---
+    // Values that change without a rebuild, like the slide size, physics and
+    // inputs, are read from refs as the handlers run
+
+    // Casts the ray from the camera through a pointer position, returning
+    // whether there is a view to cast it in
+    const aimRaycaster = (clientX: number, clientY: number): boolean => {
+      if (!cameraRef.current || !canvasRef.current) return false;
+      const rect = canvasRef.current.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return false;
+      mouse.current.x = ((clientX - rect.left) / rect.width) * 2 - 1;
+      mouse.current.y = -((clientY - rect.top) / rect.height) * 2 + 1;
+      raycaster.current.setFromCamera(mouse.current, cameraRef.current);
+      return true;
+    };
+
+    const checkSlideIntersection = (
+      clientX: number,
+      clientY: number
+    ): THREE.Mesh | null => {
+      if (slides.length === 0 || !aimRaycaster(clientX, clientY)) return null;
+      const intersects = raycaster.current.intersectObjects(slides);
+      return intersects.length > 0
+        ? (intersects[0].object as THREE.Mesh)
+        : null;
+    };
+
+    // Whether the user has enabled this way of moving the slider
+    const isEnabled = (input: SliderInput) => inputsRef.current.includes(input);
+
+    // Where the pointer meets the slides, in world space, for the pointer
+    // effects to follow
+    const trackPointer = (e: PointerEvent) => {
+      if (!pointerEffectsOptions.current) return;
+      pointer.point = aimRaycaster(e.clientX, e.clientY)
+        ? getPlanePoint(raycaster.current.ray)
+        : null;
+      frameLoop.current?.wake();
+    };
+
+    // Pointer positions are tracked along the scroll axis only
+    const startDrag = (slide: THREE.Mesh, pointerAxis: number) => {
+      motion.grab();
+      grabbedSlide.current = slide;
+      dragStart.current = pointerAxis;
+      dragLast.current = pointerAxis;
+      markInteraction(autoplayClock.current);
+      frameLoop.current?.wake();
+      callbacks.current.onDragStart?.(
+        getSlideEventDetail(slide.userData.index, slideImages)
+      );
+    };
+
+    // Moves the held slider by a pointer delta in pixels
+    const moveDrag = (pointerAxis: number) => {
+      const delta = pointerAxis - dragLast.current;
+      dragLast.current = pointerAxis;
+      const dragStrength = Math.min(Math.abs(delta) * 0.02, 1.0);
+      motion.drag(-delta * physics.current.dragSensitivity, dragStrength);
+      frameLoop.current?.wake();
+    };
+
+    // Releases the slider with momentum based on the drag distance, and
+    // reports the end of the drag
+    const finishDrag = () => {
+      const slide = grabbedSlide.current;
+      if (!slide) return;
+      grabbedSlide.current = null;
+      const distance = dragLast.current - dragStart.current;
+      const flicked = motion.release(-distance * physics.current.flickFactor);
+      frameLoop.current?.wake();
+      callbacks.current.onDragEnd?.({
+        ...getSlideEventDetail(slide.userData.index, slideImages),
+        distance,
+        flicked,
+      });
+    };
+
+    // One pointer counts at a time. Any pointer can click a slide; mice and
+    // pens drag with the "drag" input, fingers with "touch". A drag only
+    // takes over once the gesture moves along the slider's axis, so swipes
+    // across it still scroll the page, and taps leave momentum alone
+    let gesture: PointerGesture | null = null;
+    let pressedSlide: THREE.Mesh | null = null;
+    let canDrag = false; // The gesture's pointer may drag once it locks
+
+    const setCursor = (cursor: string) => {
+      if (canvasRef.current) canvasRef.current.style.cursor = cursor;
+    };
+
+    // Slides show a grab cursor only when the mouse can drag them, and
+    // otherwise hint at the lightbox
+    const getHoverCursor = (overSlide: THREE.Mesh | null) => {
+      if (lightbox.open) return "zoom-out";
+      if (!overSlide) return "default";
+      if (isEnabled("drag")) return "grab";
+      return lightboxEnabled.current ? "zoom-in" : "default";
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (gesture || !e.isPrimary || e.button !== 0) return;
+      gesture = createPointerGesture(e);
+      canvas.setPointerCapture(e.pointerId); // Keep receiving moves off the canvas
+      pressedSlide = checkSlideIntersection(e.clientX, e.clientY);
+      pointer.hoveredSlide = null; // Pressing isn't hovering
+      trackPointer(e);
+      // An expanded slide holds still; the press can only close it
+      canDrag = !lightbox.open && isEnabled(getPointerInput(e));
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!gesture) {
+        if (e.pointerType === "touch") return; // Touch has no hover
+        const overSlide = checkSlideIntersection(e.clientX, e.clientY);
+        isHovering.current = overSlide !== null;
+        pointer.hoveredSlide = overSlide;
+        trackPointer(e);
+        setCursor(getHoverCursor(overSlide));
+        return;
+      }
+      if (e.pointerId !== gesture.pointerId) return;
+      trackPointer(e);
+      const lock = updateGestureLock(gesture, e, orientation);
+      if (lock === "page") {
+        // Across the axis, before any drag began: let go, the page handles it
+        gesture = null;
+        pressedSlide = null;
+        canvas.releasePointerCapture(e.pointerId);
+        setCursor("default");
+        return;
+      }
+      if (lock !== "slider") return;
+      if (!grabbedSlide.current) {
+        if (!canDrag || slides.length === 0) return;
+        // Drags may start between slides, and then report the centered one
+        const slide =
+          pressedSlide ??
+          slides[
+            getActiveImageIndex(
+              motion.position,
+              slideLayout.current.slideUnit,
+              slides.length,
+              loop
+            )
+          ];
+        // From where the press began, so the drag covers the whole distance
+        startDrag(
+          slide,
+          getPointerAxis(
+            { clientX: gesture.startX, clientY: gesture.startY },
+            orientation
+          )
+        );
+        setCursor("grabbing");
+      }
+      moveDrag(getPointerAxis(e, orientation));
+    };
+
+    // Reports a click if the pointer barely moved and was released over the
+    // slide it pressed, and opens the lightbox on it. While expanded, any
+    // click closes it
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!gesture || e.pointerId !== gesture.pointerId) return;
+      // A cancelled pointer, e.g. the browser took over to scroll, never
+      // counts as a click
+      const tapped = e.type === "pointerup" && isGestureTap(gesture, e);
+      gesture = null;
+      finishDrag();
+      const releasedOver =
+        e.type === "pointerup"
+          ? checkSlideIntersection(e.clientX, e.clientY)
+          : null;
+      if (tapped && lightbox.open) {
+        collapseSlide();
+      } else if (tapped && releasedOver && releasedOver === pressedSlide) {
+        callbacks.current.onSlideClick?.(
+          getSlideEventDetail(releasedOver.userData.index, slideImages)
+        );
+        if (lightboxEnabled.current) expandSlide(releasedOver.userData.index);
+      }
+      pressedSlide = null;
+      // A lifted finger leaves nothing to follow; a mouse hovers again
+      if (e.pointerType === "touch") pointer.point = null;
+      else pointer.hoveredSlide = releasedOver;
+      frameLoop.current?.wake();
+      setCursor(getHoverCursor(releasedOver));
+    };
+
+    let scrollTimeout: NodeJS.Timeout | null = null;
+
+    const handleWheel = (e: WheelEvent) => {
+      // The page scrolls instead
+      if (!isEnabled("wheel") || lightbox.open) return;
+      e.preventDefault();
+      // Scrolling down brings up the slides below in a vertical loop
+      const deltaY = orientation === "vertical" ? -e.deltaY : e.deltaY;
+      const wheelStrength = Math.min(Math.abs(deltaY) * 0.001, 1.0);
+      markInteraction(autoplayClock.current);
+      frameLoop.current?.wake();
+      motion.scroll(
+        -deltaY * physics.current.wheelSensitivity,
+        Math.min(Math.abs(deltaY) * 0.0005, 0.05) * Math.sign(deltaY),
+        wheelStrength
+      );
+      if (scrollTimeout) clearTimeout(scrollTimeout);
+      scrollTimeout = setTimeout(() => motion.endScroll(), 150);
+    };
+
+    // Reaches the slider while focus is inside it, or on the lightbox's
+    // close button. Text fields keep their own keys
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as Node;
+      if (!container.contains(target) && target !== closeButtonRef.current) {
+        return;
+      }
+      if (isEditableTarget(e.target)) return;
+      if (lightbox.open) {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          collapseSlide();
+          return;
+        }
+      } else if (!isEnabled("keyboard")) {
+        return;
+      }
+      const imageCount = slideImages.length;
+      const command = getKeyboardCommand(e.key, orientation, imageCount);
+      if (!command || imageCount === 0) return;
+      e.preventDefault(); // Arrows and paging keys would scroll the page
+      markInteraction(autoplayClock.current);
+      frameLoop.current?.wake();
+      motion.navigate(
+        command.type === "step"
+          ? getStepTarget(
+              motion.target,
+              slideLayout.current.slideUnit,
+              command.step
+            )
+          : getImageTarget(
+              motion.target,
+              slideLayout.current.slideUnit,
+              command.index,
+              imageCount,
+              loop
+            ),
+        { distortion: NAVIGATION_DISTORTION }
+      );
+    };
+
+    // Nothing is drawn, and no video plays, off-screen or in a hidden tab.
+    // Coming back starts a fresh frame clock, so time away doesn't count as
+    // one long frame, and the loop resumes the centered video
+    let isOnScreen = true;
+    let isVisible = true;
+    const updateVisibility = () => {
+      const visible = isOnScreen && !document.hidden;
+      if (visible && !isVisible) lastTime.current = 0;
+      if (!visible) {
+        slides.forEach((slide) => slide.userData.loading?.setPlaying(false));
+      }
+      isVisible = visible;
+      frameLoop.current?.setVisible(visible);
+    };
+    const intersectionObserver = new IntersectionObserver(([entry]) => {
+      isOnScreen = entry.isIntersecting;
+      updateVisibility();
+    });
+
+    // Returning to a hidden tab restarts the autoplay idle delay instead of
+    // counting the time away as elapsed
+    const handleVisibilityChange = () => {
+      markInteraction(autoplayClock.current);
+      updateVisibility();
+    };
+
+    const handlePointerLeave = () => {
+      isHovering.current = false;
+      pointer.point = null;
+      pointer.hoveredSlide = null;
+      frameLoop.current?.wake(); // Autoplay may resume
+    };
+
+    // Follows the container, whether the window or the page layout resized it
+    const handleResize = () => {
+      if (!cameraRef.current) return;
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      if (width === 0 || height === 0) return; // Hidden or not laid out yet
+      cameraRef.current.aspect = width / height;
+      cameraRef.current.updateProjectionMatrix();
+      if (rendererRef.current) {
+        rendererRef.current.setSize(width, height);
+        rendererRef.current.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+      }
+      updateLayout(); // slidesPerView and breakpoints depend on the size
+      frameLoop.current?.wake();
+    };
+    const resizeObserver = new ResizeObserver(handleResize);
+
+    // Add listeners using the handlers defined above
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerup", handlePointerUp);
+    canvas.addEventListener("pointercancel", handlePointerUp);
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    document.addEventListener("keydown", handleKeyDown);
+    resizeObserver.observe(container);
+    canvas.addEventListener("pointerleave", handlePointerLeave);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    // Start Animation: our own loop, or the shared canvas's
+    lastTime.current = 0;
+    frameLoop.current = sharedCanvas
+      ? sharedCanvas.register({
+          element: container,
+          scene: sceneRef.current,
+          camera: cameraRef.current,
+          update: animate,
+        })
+      : createFrameLoop(animate);
+    frameLoop.current.wake();
+    intersectionObserver.observe(container);
+
+    // Cleanup
+    return () => {
+      intersectionObserver.disconnect();
+      frameLoop.current?.stop();
+      frameLoop.current = null;
+      // Remove Pointer Listeners
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerup", handlePointerUp);
+      canvas.removeEventListener("pointercancel", handlePointerUp);
+      canvas.removeEventListener("wheel", handleWheel);
+      // Remove Keyboard & Resize Listeners
+      document.removeEventListener("keydown", handleKeyDown);
+      resizeObserver.disconnect();
+      canvas.removeEventListener("pointerleave", handlePointerLeave);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+
+      // Dispose Three.js objects. Textures are shared, and released by
+      // each slide's loading state
+      slides.forEach((slide) => {
+        slide.userData.loading?.dispose();
+        slide.geometry.dispose();
+        (slide.material as THREE.Material).dispose();
+        sceneRef.current?.remove(slide);
+      });
+      slides.length = 0;
+      rendererRef.current?.dispose();
+      sceneRef.current = null;
+      cameraRef.current = null;
+      rendererRef.current = null;
+      if (scrollTimeout) clearTimeout(scrollTimeout);
+    };
+  }, [
+    // Main dependencies for re-running the entire setup. Size changes are
+    // applied by updateLayout instead
+    slideCount,
+    slideImages,
+    orientation,
+    loop,
+    motion, // Stable for the component's lifetime
+    lightbox, // Likewise
+    pointer,
+    // Callbacks defined outside useEffect need to be listed if they depend on props/state
+    animate,
+    createSlide,
+    measureLayout,
+    updateLayout,
+    sharedCanvas,
+    isFullscreen,
+    expandSlide,
+    collapseSlide,
+    // The slides array is stable, and physics is read through its ref
+  ]);
+
+  // Swipes along the slider's axis move it, and the page keeps panning
+  // across it. Without touch input the browser handles every swipe
+  const touchActionClass = inputs.includes("touch")
+    ? getTouchActionClass(orientation)
+    : "";
+
+  // Fullscreen navigation sits outside the region, above the page content
+  // the canvas lies under
+  const navigationControls = navigationOptions && (
+    <SliderNavigation
+      ref={navigationRef}
+      images={slideImages}
+      options={navigationOptions}
+      className={
+        isFullscreen
+          ? "fixed inset-x-0 bottom-0 z-10"
+          : "absolute inset-x-0 bottom-0"
+      }
+      onSelect={selectImage}
+    />
+  );
+
+  // Above the canvas, and in the fullscreen layout above the page as well
+  const closeButton = isExpanded && (
+    <button
+      ref={closeButtonRef}
+      type="button"
+      aria-label="Close"
+      onClick={collapseSlide}
+      className={`${isFullscreen ? "fixed z-10" : "absolute"} right-4 top-4 flex h-10 w-10 items-center justify-center rounded-full bg-black/50 text-2xl leading-none text-white hover:bg-black/70`}
+    >
+      ×
+    </button>
+  );
+
+  // Container div defines the layout space
+  return (
+    <>
+      <div
+        ref={containerRef}
+        role="region"
+        aria-roledescription="carousel"
+        aria-label={ariaLabel}
+        tabIndex={inputs.includes("keyboard") ? 0 : undefined}
+        className={
+          isFullscreen
+            ? "fixed inset-0 -z-10"
+            : "w-full aspect-video overflow-hidden relative bg-transparent"
+        }
+      >
+        <canvas
+          ref={canvasRef}
+          className={`w-full h-full block cursor-default ${touchActionClass}`}
+        />
+        {renderCaption && (
+          <div className="pointer-events-none absolute inset-0 overflow-hidden">
+            {Array.from({ length: slideCount }, (_, i) => {
+              const imageIndex = getImageIndex(i, slideImages.length);
+              return (
+                <div
+                  key={i}
+                  ref={(element) => {
+                    captionRefs.current[i] = element;
+                  }}
+                  // Hidden until the loop first positions it
+                  style={{ visibility: "hidden" }}
+                  className="pointer-events-auto absolute left-0 top-0 will-change-transform"
+                >
+                  {renderCaption(slideImages[imageIndex], imageIndex)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {!isFullscreen && navigationControls}
+        {!isFullscreen && closeButton}
+        <ul className="sr-only">
+          {slideImages.map((image, index) => (
+            <li
+              key={index}
+              role="group"
+              aria-roledescription="slide"
+              aria-label={getSlidePositionLabel(index, slideImages.length)}
+            >
+              {image.alt}
+            </li>
+          ))}
+        </ul>
+        {/* Autoplay would flood screen readers with announcements */}
+        <div
+          ref={liveRegionRef}
+          className="sr-only"
+          aria-live={autoplayOptions.current ? "off" : "polite"}
+          aria-atomic="true"
+        />
+      </div>
+      {isFullscreen && navigationControls}
+      {isFullscreen && closeButton}
+    </>
+  );
+};
+
+export default Slider;
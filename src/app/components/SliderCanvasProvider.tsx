@@ -0,0 +1,148 @@
+"use client";
+
+import React, { createContext, useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { createFrameLoop, FrameLoop } from "../lib/slider/frameLoop";
+
+/** A slider drawn by the shared renderer, into its element's on-screen rect. */
+export interface SliderView {
+  element: HTMLElement;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  /**
+   * Advances the slider by one frame, before it is drawn. Returns how long
+   * the view may go without another frame, as for `createFrameLoop`.
+   */
+  update: (time: number) => number;
+}
+
+export interface SliderCanvas {
+  /**
+   * Adds a view to the shared loop. The returned loop wakes the shared one,
+   * hides the view while not visible, and removes it on `stop`.
+   */
+  register: (view: SliderView) => FrameLoop;
+}
+
+/** The shared canvas, or null when sliders render on their own. */
+export const SliderCanvasContext = createContext<SliderCanvas | null>(null);
+
+/**
+ * Opt-in: draws every contained `Slider` inside it with one WebGL context
+ * and one animation loop, instead of one per slider. The canvas covers the
+ * viewport and ignores the pointer; each slider is clipped to its
+ * container's rect. A fullscreen slider keeps its own renderer, as it sits
+ * behind the page rather than in it.
+ */
+const SliderCanvasProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const { loop, sliderCanvas } = useMemo(() => {
+    const views = new Set<SliderView>();
+    const hidden = new Set<SliderView>();
+
+    // Sleeps as long as the busiest visible view allows
+    const loop = createFrameLoop((time) => {
+      const renderer = rendererRef.current;
+      if (!renderer) return Infinity;
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      // Wipe the whole canvas, since views move as the page scrolls
+      renderer.setScissorTest(false);
+      renderer.clear();
+      renderer.setScissorTest(true);
+      let sleep = Infinity;
+      views.forEach((view) => {
+        if (hidden.has(view)) return;
+        sleep = Math.min(sleep, view.update(time));
+        const rect = view.element.getBoundingClientRect();
+        const visible =
+          rect.width > 0 &&
+          rect.height > 0 &&
+          rect.bottom > 0 &&
+          rect.right > 0 &&
+          rect.top < height &&
+          rect.left < width;
+        if (!visible) return;
+        const aspect = rect.width / rect.height;
+        if (view.camera.aspect !== aspect) {
+          view.camera.aspect = aspect;
+          view.camera.updateProjectionMatrix();
+        }
+        // Viewport and scissor count from the bottom left corner
+        const bottom = height - rect.bottom;
+        renderer.setViewport(rect.left, bottom, rect.width, rect.height);
+        renderer.setScissor(rect.left, bottom, rect.width, rect.height);
+        renderer.render(view.scene, view.camera);
+      });
+      return sleep;
+    });
+
+    const sliderCanvas: SliderCanvas = {
+      register: (view) => {
+        views.add(view);
+        loop.wake();
+        return {
+          wake: loop.wake,
+          setVisible(visible) {
+            if (visible) hidden.delete(view);
+            else hidden.add(view);
+            // Redraw either way, to show the view or wipe it
+            loop.wake();
+          },
+          stop() {
+            views.delete(view);
+            hidden.delete(view);
+            loop.wake();
+          },
+        };
+      },
+    };
+    return { loop, sliderCanvas };
+  }, []);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const renderer = new THREE.WebGLRenderer({
+      canvas: canvasRef.current,
+      antialias: true,
+      alpha: true,
+    });
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setClearColor(0x000000, 0);
+    rendererRef.current = renderer;
+
+    const handleResize = () => {
+      renderer.setSize(window.innerWidth, window.innerHeight);
+      loop.wake();
+    };
+    handleResize();
+
+    // Views follow their elements, so scrolling moves them even when idle
+    window.addEventListener("scroll", loop.wake, { passive: true });
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("scroll", loop.wake);
+      window.removeEventListener("resize", handleResize);
+      rendererRef.current = null;
+      renderer.dispose();
+    };
+  }, [loop]);
+
+  return (
+    <SliderCanvasContext value={sliderCanvas}>
+      {/* First in the DOM, so positioned content such as captions stays on top */}
+      <canvas
+        ref={canvasRef}
+        aria-hidden="true"
+        className="pointer-events-none fixed inset-0 w-full h-full"
+      />
+      {children}
+    </SliderCanvasContext>
+  );
+};
+
+export default SliderCanvasProvider;
@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useImperativeHandle, useRef, useState } from "react";
+import { SliderImage } from "../lib/slider/images";
+import { NavigationOptions } from "../lib/slider/controls";
+
+/** Lets the slider's animation loop drive the controls without re-rendering itself. */
+export interface SliderNavigationHandle {
+  setActiveIndex: (index: number) => void;
+  /** Fills the progress bar, 0–1. */
+  setProgress: (progress: number) => void;
+}
+
+interface SliderNavigationProps {
+  ref?: React.Ref<SliderNavigationHandle>;
+  images: SliderImage[];
+  options: Required<NavigationOptions>;
+  /** Placement classes, set by the slider. */
+  className?: string;
+  /** Navigates to the image at `index`. */
+  onSelect: (index: number) => void;
+}
+
+const join = (...classNames: (string | false | undefined)[]) =>
+  classNames.filter(Boolean).join(" ");
+
+/** Pagination dots, progress bar and thumbnail strip shown over a slider. */
+const SliderNavigation: React.FC<SliderNavigationProps> = ({
+  ref,
+  images,
+  options,
+  className,
+  onSelect,
+}) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const progressBarRef = useRef<HTMLDivElement>(null);
+  const { classNames } = options;
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      setActiveIndex,
+      setProgress: (progress) => {
+        if (progressBarRef.current) {
+          progressBarRef.current.style.transform = `scaleX(${progress})`;
+        }
+      },
+    }),
+    []
+  );
+
+  return (
+    <div
+      className={join(
+        "pointer-events-none flex flex-col items-center gap-3 p-4",
+        className,
+        classNames.root
+      )}
+    >
+      {options.thumbnails && (
+        <div
+          className={join(
+            "pointer-events-auto flex max-w-full gap-2 overflow-x-auto",
+            classNames.thumbnails
+          )}
+        >
+          {images.map((image, index) => (
+            <button
+              key={index}
+              type="button"
+              aria-label={`Go to slide ${index + 1}: ${image.alt}`}
+              aria-current={index === activeIndex}
+              onClick={() => onSelect(index)}
+              style={{
+                // Quoted, so spaces and parentheses in the URL survive
+                backgroundImage: `url(${JSON.stringify(image.thumbnail ?? image.src)})`,
+              }}
+              className={join(
+                "h-12 w-16 shrink-0 rounded bg-cover bg-center transition-opacity",
+                index === activeIndex
+                  ? join(
+                      "opacity-100 ring-2 ring-white",
+                      classNames.activeThumbnail
+                    )
+                  : "opacity-50 hover:opacity-80",
+                classNames.thumbnail
+              )}
+            />
+          ))}
+        </div>
+      )}
+      {options.progress && (
+        <div
+          className={join(
+            "h-1 w-full max-w-xs overflow-hidden rounded bg-white/20",
+            classNames.progress
+          )}
+        >
+          <div
+            ref={progressBarRef}
+            // Set inline, as setProgress does: Tailwind's scale utilities
+            // use the separate `scale` property, which would multiply with it
+            style={{ transform: "scaleX(0)" }}
+            className={join(
+              "h-full w-full origin-left bg-white",
+              classNames.progressBar
+            )}
+          />
+        </div>
+      )}
+      {options.dots && (
+        <div
+          className={join("pointer-events-auto flex gap-2", classNames.dots)}
+        >
+          {images.map((image, index) => (
+            <button
+              key={index}
+              type="button"
+              aria-label={`Go to slide ${index + 1}`}
+              aria-current={index === activeIndex}
+              onClick={() => onSelect(index)}
+              className={join(
+                "h-2 w-2 rounded-full transition-colors",
+                index === activeIndex
+                  ? join("bg-white", classNames.activeDot)
+                  : "bg-white/40 hover:bg-white/70",
+                classNames.dot
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SliderNavigation;
@@ -0,0 +1,12 @@
+import { SliderImage } from "./images";
+
+/** Position of an image in the list, e.g. "3 of 5". */
+export const getSlidePositionLabel = (index: number, imageCount: number) =>
+  `${index + 1} of ${imageCount}`;
+
+/** Live region text for the centered image, e.g. "Slide 3 of 5: Harbor at dusk". */
+export const getSlideAnnouncement = (index: number, images: SliderImage[]) => {
+  const label = `Slide ${getSlidePositionLabel(index, images.length)}`;
+  const alt = images[index]?.alt;
+  return alt ? `${label}: ${alt}` : label;
+};
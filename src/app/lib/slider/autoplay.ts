@@ -0,0 +1,90 @@
+/** Fine-tuning for the `autoplay` prop. */
+export interface AutoplayOptions {
+  /** Time each slide stays centered, in milliseconds. Default: 4000 */
+  interval?: number;
+  /** Which way autoplay advances. Default: 'next' */
+  direction?: "next" | "prev";
+  /** Distortion kick added for each transition, 0–1. Default: 0.3 */
+  distortion?: number;
+  /** Hold still while the pointer is over a slide. Default: true */
+  pauseOnHover?: boolean;
+  /** Idle time after the last interaction before autoplay resumes, in milliseconds. Default: 3000 */
+  resumeDelay?: number;
+}
+
+/** `true` enables autoplay with the defaults. */
+export type AutoplayProp = boolean | AutoplayOptions;
+
+const DEFAULT_AUTOPLAY: Required<AutoplayOptions> = {
+  interval: 4000,
+  direction: "next",
+  distortion: 0.3,
+  pauseOnHover: true,
+  resumeDelay: 3000,
+};
+
+/** Fills in defaults, or returns null when autoplay is off. */
+export const resolveAutoplay = (
+  autoplay: AutoplayProp | undefined
+): Required<AutoplayOptions> | null => {
+  if (!autoplay) return null;
+  return autoplay === true
+    ? DEFAULT_AUTOPLAY
+    : { ...DEFAULT_AUTOPLAY, ...autoplay };
+};
+
+/** Per-instance autoplay clock, advanced by the animation loop. */
+export interface AutoplayClock {
+  /** Loop time of the most recent user interaction, in milliseconds. */
+  lastInteraction: number;
+  /** Unpaused time spent on the current slide, in milliseconds. */
+  elapsed: number;
+}
+
+export const createAutoplayClock = (): AutoplayClock => ({
+  lastInteraction: -Infinity,
+  elapsed: 0,
+});
+
+/** Restarts the idle delay, e.g. after input or programmatic navigation. */
+export const markInteraction = (clock: AutoplayClock) => {
+  clock.lastInteraction = performance.now();
+  clock.elapsed = 0;
+};
+
+/**
+ * Advances the clock by one frame and returns the slide step to take
+ * (1, -1), or 0 when it is not yet time to move.
+ */
+export const tickAutoplay = (
+  clock: AutoplayClock,
+  options: Required<AutoplayOptions>,
+  time: number,
+  deltaMs: number,
+  paused: boolean
+): number => {
+  if (paused) {
+    clock.lastInteraction = time;
+    clock.elapsed = 0;
+    return 0;
+  }
+  const idle = time - clock.lastInteraction - options.resumeDelay;
+  if (idle < 0) return 0;
+  // A long frame, e.g. after the loop slept, only counts from the resume
+  clock.elapsed += Math.min(deltaMs, idle);
+  if (clock.elapsed < options.interval) return 0;
+  clock.elapsed = 0;
+  return options.direction === "prev" ? -1 : 1;
+};
+
+/**
+ * Milliseconds until `tickAutoplay` would take a step, if nothing pauses it.
+ * Lets an idle slider sleep until then.
+ */
+export const getAutoplayDelay = (
+  clock: AutoplayClock,
+  options: Required<AutoplayOptions>,
+  time: number
+) =>
+  Math.max(0, clock.lastInteraction + options.resumeDelay - time) +
+  Math.max(0, options.interval - clock.elapsed);
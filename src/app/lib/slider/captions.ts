@@ -0,0 +1,50 @@
+import * as THREE from "three";
+
+/** Where a caption's slide is, passed to `captionStyle` every frame. */
+export interface CaptionState {
+  /** Signed distance of the slide from the center, in slides. */
+  offset: number;
+  /** Current distortion, 0–1. */
+  distortion: number;
+}
+
+/** Extra styling applied to a caption each frame, on top of its positioning. */
+export type CaptionStyle = (state: CaptionState) => {
+  opacity?: number;
+  /** Appended after the translation that centers the caption on its slide. */
+  transform?: string;
+};
+
+const projected = new THREE.Vector3();
+
+/**
+ * Centers a caption on its slide by projecting the plane's position through
+ * the camera into container pixels. Also exposes the state as the CSS
+ * variables `--slide-offset` and `--slide-distortion`.
+ */
+export const updateCaption = (
+  element: HTMLElement,
+  slide: THREE.Object3D,
+  camera: THREE.Camera,
+  size: THREE.Vector2,
+  state: CaptionState,
+  captionStyle?: CaptionStyle
+) => {
+  projected.copy(slide.position).project(camera);
+  // Well past the edges there is nothing to see
+  if (Math.abs(projected.x) > 1.5 || Math.abs(projected.y) > 1.5) {
+    element.style.visibility = "hidden";
+    return;
+  }
+  const x = ((projected.x + 1) / 2) * size.x;
+  const y = ((1 - projected.y) / 2) * size.y;
+  const extra = captionStyle?.(state);
+  element.style.visibility = "visible";
+  element.style.transform = `translate(${x}px, ${y}px) translate(-50%, -50%) ${
+    extra?.transform ?? ""
+  }`;
+  element.style.opacity =
+    extra?.opacity === undefined ? "" : `${extra.opacity}`;
+  element.style.setProperty("--slide-offset", state.offset.toFixed(3));
+  element.style.setProperty("--slide-distortion", state.distortion.toFixed(3));
+};
@@ -0,0 +1,43 @@
+/** Extra classes for the navigation controls, appended to their defaults. */
+export interface NavigationClassNames {
+  root?: string;
+  dots?: string;
+  dot?: string;
+  activeDot?: string;
+  progress?: string;
+  progressBar?: string;
+  thumbnails?: string;
+  thumbnail?: string;
+  activeThumbnail?: string;
+}
+
+/** Which controls the `navigation` prop renders. */
+export interface NavigationOptions {
+  /** One dot per image, the active one highlighted. Default: true */
+  dots?: boolean;
+  /** A bar filling up as the slider moves through the images. Default: true */
+  progress?: boolean;
+  /** A clickable strip of image thumbnails. Default: false */
+  thumbnails?: boolean;
+  classNames?: NavigationClassNames;
+}
+
+/** `true` renders the dots and the progress bar. */
+export type NavigationProp = boolean | NavigationOptions;
+
+const DEFAULT_NAVIGATION: Required<NavigationOptions> = {
+  dots: true,
+  progress: true,
+  thumbnails: false,
+  classNames: {},
+};
+
+/** Fills in defaults, or returns null when no controls are wanted. */
+export const resolveNavigation = (
+  navigation: NavigationProp | undefined
+): Required<NavigationOptions> | null => {
+  if (!navigation) return null;
+  return navigation === true
+    ? DEFAULT_NAVIGATION
+    : { ...DEFAULT_NAVIGATION, ...navigation };
+};
@@ -0,0 +1,303 @@
+import * as THREE from "three";
+
+/** Numeric parameters of an effect. Each becomes a float uniform. */
+export type EffectParams = Record<string, number>;
+
+/**
+ * A distortion effect: GLSL snippets patched into the slides' basic
+ * material, driven by the shared uniforms below plus one float uniform per
+ * parameter, named `uEffect` + the capitalized key (`radius` → `uEffectRadius`).
+ *
+ * Shared uniforms available to every effect:
+ * - `float uDistortion`: current distortion factor, 0–1
+ * - `float uVelocity`: signed scroll velocity, world units per second
+ * - `float uTime`: seconds since the slider started
+ * - `vec2 uDistortionCenter`: world-space center of the effect
+ * - `float uMaxDistortion`: displacement at full distortion, world units
+ * - `vec2 uSlideAxis`: world-space direction slides travel as the loop advances
+ * - `float uHover`: strength of the hover effect, as a fraction of `uMaxDistortion`
+ * - `vec2 uHoverPoint`: world-space point under a hovering cursor
+ * - `vec4 uHoverSlide`: center (xy) and half size (zw) of the hovered slide
+ *
+ * The hover effect itself is added after every effect's vertex code: a
+ * local bulge under the cursor, or a tilt of the hovered slide when
+ * `uHoverTilt` is 1.
+ *
+ * `vertex` runs after `<begin_vertex>` and may write `transformed`; the vertex's
+ * world-space xy is available as `sliderWorldXY`. `fragment` runs after
+ * `<map_fragment>` and may write `diffuseColor` (the texture is `map`, sampled
+ * at `vMapUv`, only when `USE_MAP` is defined).
+ *
+ * To add an effect, register it and declare its parameters so the
+ * `distortion` prop type-checks:
+ *
+ *     declare module "…/lib/slider/effects" {
+ *       interface DistortionEffectParams { twist: { turns: number } }
+ *     }
+ *     registerDistortionEffect({ name: "twist", defaults: { turns: 1 }, vertex: "…" });
+ */
+export interface DistortionEffect<P extends EffectParams = EffectParams> {
+  name: string;
+  defaults: P;
+  vertex?: string;
+  fragment?: string;
+}
+
+export interface BulgeParams extends EffectParams {
+  /** World-space distance at which the bulge fades out. Default: 2.0 */
+  radius: number;
+}
+
+export interface WaveParams extends EffectParams {
+  /** Wave height, as a fraction of `uMaxDistortion`. Default: 0.25 */
+  amplitude: number;
+  /** Waves per world unit along the scroll axis, in radians. Default: 2.0 */
+  frequency: number;
+  /** Phase speed, in radians per second. Default: 3.0 */
+  speed: number;
+}
+
+export interface RippleParams extends EffectParams {
+  /** Ripple height, as a fraction of `uMaxDistortion`. Default: 0.2 */
+  amplitude: number;
+  /** Rings per world unit, in radians. Default: 6.0 */
+  frequency: number;
+  /** Outward speed, in radians per second. Default: 8.0 */
+  speed: number;
+  /** World-space distance at which the ripple fades out. Default: 3.0 */
+  radius: number;
+}
+
+export interface RgbSplitParams extends EffectParams {
+  /** Texture offset per unit of velocity, in UV space. Default: 0.002 */
+  amount: number;
+  /** Largest offset applied, in UV space. Default: 0.05 */
+  maxOffset: number;
+}
+
+/**
+ * Parameters of every registered effect, keyed by name. Augment this
+ * interface to type custom effects.
+ */
+export interface DistortionEffectParams {
+  bulge: BulgeParams;
+  wave: WaveParams;
+  ripple: RippleParams;
+  rgbSplit: RgbSplitParams;
+  none: Record<string, never>;
+}
+
+export type DistortionEffectName = keyof DistortionEffectParams;
+
+/** An effect name, or an object selecting an effect and overriding some of its parameters. */
+export type DistortionProp =
+  | DistortionEffectName
+  | {
+      [K in DistortionEffectName]: { type: K } & Partial<
+        DistortionEffectParams[K]
+      >;
+    }[DistortionEffectName];
+
+const registry = new Map<string, DistortionEffect>();
+
+/** Makes an effect selectable through the `distortion` prop. */
+export const registerDistortionEffect = <P extends EffectParams>(
+  effect: DistortionEffect<P>
+) => {
+  registry.set(effect.name, effect as unknown as DistortionEffect);
+};
+
+// The original z-bulge: sin^1.5 falloff around the distortion center
+registerDistortionEffect<BulgeParams>({
+  name: "bulge",
+  defaults: { radius: 2.0 },
+  vertex: /* glsl */ `
+    float bulgeStrength = max(0.0, 1.0 - distance(sliderWorldXY, uDistortionCenter) / uEffectRadius);
+    transformed.z = pow(sin(bulgeStrength * PI / 2.0), 1.5) * uMaxDistortion * uDistortion;
+  `,
+});
+
+registerDistortionEffect<WaveParams>({
+  name: "wave",
+  defaults: { amplitude: 0.25, frequency: 2.0, speed: 3.0 },
+  vertex: /* glsl */ `
+    transformed.z = sin(dot(sliderWorldXY, uSlideAxis) * uEffectFrequency + uTime * uEffectSpeed)
+      * uEffectAmplitude * uMaxDistortion * uDistortion;
+  `,
+});
+
+registerDistortionEffect<RippleParams>({
+  name: "ripple",
+  defaults: { amplitude: 0.2, frequency: 6.0, speed: 8.0, radius: 3.0 },
+  vertex: /* glsl */ `
+    float rippleDistance = distance(sliderWorldXY, uDistortionCenter);
+    float rippleFalloff = max(0.0, 1.0 - rippleDistance / uEffectRadius);
+    transformed.z = sin(rippleDistance * uEffectFrequency - uTime * uEffectSpeed)
+      * rippleFalloff * uEffectAmplitude * uMaxDistortion * uDistortion;
+  `,
+});
+
+// Offsets the red and blue channels along the direction of travel
+registerDistortionEffect<RgbSplitParams>({
+  name: "rgbSplit",
+  defaults: { amount: 0.002, maxOffset: 0.05 },
+  fragment: /* glsl */ `
+    #ifdef USE_MAP
+      vec2 rgbOffset = uSlideAxis * uDistortion *
+        clamp(-uVelocity * uEffectAmount, -uEffectMaxOffset, uEffectMaxOffset);
+      vec4 rgbSplitRed = texture2D(map, vMapUv + rgbOffset);
+      vec4 rgbSplitBlue = texture2D(map, vMapUv - rgbOffset);
+      // Video textures are decoded in the shader, as <map_fragment> does
+      #ifdef DECODE_VIDEO_TEXTURE
+        rgbSplitRed = sRGBTransferEOTF(rgbSplitRed);
+        rgbSplitBlue = sRGBTransferEOTF(rgbSplitBlue);
+      #endif
+      diffuseColor.r = diffuse.r * rgbSplitRed.r;
+      diffuseColor.b = diffuse.b * rgbSplitBlue.b;
+    #endif
+  `,
+});
+
+registerDistortionEffect<Record<string, never>>({
+  name: "none",
+  defaults: {},
+});
+
+// Unknown names already warned about; sliders resolve their effect every render
+const warnedEffects = new Set<string>();
+
+/** Looks up the effect and merges its defaults with the prop's overrides. */
+export const resolveDistortion = (
+  distortion: DistortionProp
+): { effect: DistortionEffect; params: EffectParams } => {
+  const { type, ...overrides } =
+    typeof distortion === "string" ? { type: distortion } : distortion;
+  let effect = registry.get(type);
+  if (!effect) {
+    if (!warnedEffects.has(type)) {
+      warnedEffects.add(type);
+      console.warn(`Unknown distortion effect "${type}", using "bulge".`);
+    }
+    effect = registry.get("bulge")!;
+  }
+  return {
+    effect,
+    params: { ...effect.defaults, ...(overrides as EffectParams) },
+  };
+};
+
+/** Uniforms of one slider, shared by all of its slide materials. */
+export interface DistortionUniforms {
+  [uniform: string]: THREE.IUniform;
+  uDistortion: THREE.IUniform<number>;
+  uVelocity: THREE.IUniform<number>;
+  uTime: THREE.IUniform<number>;
+  uDistortionCenter: THREE.IUniform<THREE.Vector2>;
+  uMaxDistortion: THREE.IUniform<number>;
+  uSlideAxis: THREE.IUniform<THREE.Vector2>;
+  uHover: THREE.IUniform<number>;
+  uHoverPoint: THREE.IUniform<THREE.Vector2>;
+  uHoverSlide: THREE.IUniform<THREE.Vector4>;
+  uHoverTilt: THREE.IUniform<number>;
+}
+
+export const createDistortionUniforms = (
+  maxDistortion: number
+): DistortionUniforms => ({
+  uDistortion: { value: 0 },
+  uVelocity: { value: 0 },
+  uTime: { value: 0 },
+  uDistortionCenter: { value: new THREE.Vector2(0, 0) },
+  uMaxDistortion: { value: maxDistortion },
+  uSlideAxis: { value: new THREE.Vector2(1, 0) },
+  uHover: { value: 0 },
+  uHoverPoint: { value: new THREE.Vector2(0, 0) },
+  uHoverSlide: { value: new THREE.Vector4(0, 0, 1, 1) },
+  uHoverTilt: { value: 0 },
+});
+
+const getParamUniformName = (key: string) =>
+  `uEffect${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+
+/** Writes effect parameters into their uniforms, creating missing ones. */
+export const setEffectParams = (
+  uniforms: DistortionUniforms,
+  params: EffectParams
+) => {
+  Object.entries(params).forEach(([key, value]) => {
+    const name = getParamUniformName(key);
+    if (uniforms[name]) uniforms[name].value = value;
+    else uniforms[name] = { value };
+  });
+};
+
+const SHARED_PARS = /* glsl */ `
+uniform float uDistortion;
+uniform float uVelocity;
+uniform float uTime;
+uniform vec2 uDistortionCenter;
+uniform float uMaxDistortion;
+uniform vec2 uSlideAxis;
+uniform float uHover;
+uniform vec2 uHoverPoint;
+uniform vec4 uHoverSlide;
+uniform float uHoverTilt;
+`;
+
+// Only the hovered slide moves. Slide-local coordinates run from -1 to 1
+// across it, so the tilt presses the side under the cursor away
+const HOVER_VERTEX = /* glsl */ `
+  if (uHover > 0.0) {
+    vec2 hoverLocal = (sliderWorldXY - uHoverSlide.xy) / uHoverSlide.zw;
+    float onHoverSlide = step(max(abs(hoverLocal.x), abs(hoverLocal.y)), 1.001);
+    float hoverAmount = uHover * uMaxDistortion * onHoverSlide;
+    if (uHoverTilt > 0.5) {
+      vec2 pointerLocal = (uHoverPoint - uHoverSlide.xy) / uHoverSlide.zw;
+      transformed.z -= dot(hoverLocal, pointerLocal) * 0.5 * hoverAmount;
+    } else {
+      float hoverRadius = min(uHoverSlide.z, uHoverSlide.w);
+      float hoverFalloff = max(0.0, 1.0 - distance(sliderWorldXY, uHoverPoint) / hoverRadius);
+      transformed.z += hoverFalloff * hoverFalloff * hoverAmount;
+    }
+  }
+`;
+
+/**
+ * Patches a slide material with an effect, plus the hover effect. Uniforms
+ * are bound when the program compiles, so switching effects needs fresh
+ * materials.
+ */
+export const applyDistortion = (
+  material: THREE.MeshBasicMaterial,
+  effect: DistortionEffect,
+  uniforms: DistortionUniforms
+) => {
+  const pars =
+    SHARED_PARS +
+    Object.keys(effect.defaults)
+      .map((key) => `uniform float ${getParamUniformName(key)};\n`)
+      .join("");
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace("#include <common>", `#include <common>\n${pars}`)
+      .replace(
+        "#include <begin_vertex>",
+        `#include <begin_vertex>
+        vec2 sliderWorldXY = (modelMatrix * vec4(position.xy, 0.0, 1.0)).xy;
+        ${effect.vertex ?? ""}
+        ${HOVER_VERTEX}`
+      );
+    if (effect.fragment) {
+      shader.fragmentShader = shader.fragmentShader
+        .replace("#include <common>", `#include <common>\n${pars}`)
+        .replace(
+          "#include <map_fragment>",
+          `#include <map_fragment>\n${effect.fragment}`
+        );
+    }
+  };
+  // Materials sharing an effect compile to the same program
+  material.customProgramCacheKey = () => `slider-${effect.name}`;
+  return material;
+};
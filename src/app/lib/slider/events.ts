@@ -0,0 +1,59 @@
+import { SliderImage, getImageIndex } from "./images";
+
+/** Identifies a slide in callback payloads. */
+export interface SlideEventDetail {
+  /** Index into the `images` list. */
+  index: number;
+  /** Index of the plane in the loop (several planes can show the same image). */
+  planeIndex: number;
+  /** The entry of the `images` list the plane displays. */
+  image: SliderImage;
+}
+
+/** Payload of `onDragEnd`. */
+export interface DragEndDetail extends SlideEventDetail {
+  /** Distance travelled by the pointer along the scroll axis, in CSS pixels. */
+  distance: number;
+  /** Whether the release was fast enough to start momentum scrolling. */
+  flicked: boolean;
+}
+
+/** Payload of `onLoadProgress`. */
+export interface LoadProgressDetail {
+  /** URL of the image that just finished, successfully or not. */
+  url: string;
+  /** Images finished so far. */
+  loaded: number;
+  /** Images requested so far. */
+  total: number;
+}
+
+/** Callback props shared by both sliders. */
+export interface SliderCallbacks {
+  /** Fires when a different slide becomes the one closest to center. */
+  onActiveSlideChange?: (slide: SlideEventDetail) => void;
+  /** Fires when a slide is clicked or tapped without being dragged. */
+  onSlideClick?: (slide: SlideEventDetail) => void;
+  /** Fires when a press starts moving the slider along its axis; carries the grabbed slide. */
+  onDragStart?: (slide: SlideEventDetail) => void;
+  /** Fires when that drag is released. */
+  onDragEnd?: (detail: DragEndDetail) => void;
+  /** Fires once momentum has stopped and the position has converged. */
+  onSettle?: (slide: SlideEventDetail) => void;
+  /** Fires as each slide image finishes loading or fails. */
+  onLoadProgress?: (progress: LoadProgressDetail) => void;
+  /** Fires once every requested image has finished loading or failed. */
+  onLoadComplete?: () => void;
+}
+
+/** Pointer travel, in pixels, below which a press still counts as a click. */
+export const CLICK_THRESHOLD = 5;
+
+/** Builds the callback payload for a plane. */
+export const getSlideEventDetail = (
+  planeIndex: number,
+  images: SliderImage[]
+): SlideEventDetail => {
+  const index = getImageIndex(planeIndex, images.length);
+  return { index, planeIndex, image: images[index] };
+};
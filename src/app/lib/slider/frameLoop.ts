@@ -0,0 +1,64 @@
+/**
+ * Runs once per animation frame. Returns how long the loop may sleep, in
+ * milliseconds: 0 to keep going, Infinity to wait for `wake`.
+ */
+export type FrameCallback = (time: number) => number;
+
+/** A requestAnimationFrame loop that stops when there is nothing to draw. */
+export interface FrameLoop {
+  /** Resumes frames until the callback asks to sleep again. Cheap to call often. */
+  wake: () => void;
+  /** Suspends the loop while false, e.g. off-screen or in a hidden tab. */
+  setVisible: (visible: boolean) => void;
+  /** Stops for good. */
+  stop: () => void;
+}
+
+export const createFrameLoop = (frame: FrameCallback): FrameLoop => {
+  let frameId = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let visible = true;
+  let stopped = false;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const tick = (time: number) => {
+    frameId = 0;
+    if (!visible || stopped) return;
+    const sleep = frame(time);
+    if (sleep <= 0) {
+      frameId = requestAnimationFrame(tick);
+    } else if (Number.isFinite(sleep)) {
+      timer = setTimeout(wake, sleep);
+    }
+  };
+
+  const wake = () => {
+    clearTimer();
+    if (frameId || !visible || stopped) return;
+    frameId = requestAnimationFrame(tick);
+  };
+
+  return {
+    wake,
+    setVisible(next) {
+      visible = next;
+      if (visible) {
+        wake();
+      } else {
+        clearTimer();
+        cancelAnimationFrame(frameId);
+        frameId = 0;
+      }
+    },
+    stop() {
+      stopped = true;
+      clearTimer();
+      cancelAnimationFrame(frameId);
+      frameId = 0;
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import { Orientation } from "./orientation";
+import { CLICK_THRESHOLD } from "./events";
+
+/** Pointer travel, in pixels, after which a gesture commits to an axis. */
+export const AXIS_LOCK_THRESHOLD = 10;
+
+/**
+ * Who a gesture belongs to: still undecided, the slider (movement along its
+ * axis), or the page (movement across it, e.g. a vertical swipe to scroll).
+ */
+export type GestureLock = "pending" | "slider" | "page";
+
+/** The one pointer driving the slider. Other pointers are ignored meanwhile. */
+export interface PointerGesture {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  lock: GestureLock;
+}
+
+export const createPointerGesture = (e: PointerEvent): PointerGesture => ({
+  pointerId: e.pointerId,
+  startX: e.clientX,
+  startY: e.clientY,
+  lock: "pending",
+});
+
+/**
+ * Decides the gesture's owner once the pointer has travelled far enough,
+ * and keeps that decision for the rest of the gesture.
+ */
+export const updateGestureLock = (
+  gesture: PointerGesture,
+  e: PointerEvent,
+  orientation: Orientation
+): GestureLock => {
+  if (gesture.lock !== "pending") return gesture.lock;
+  const dx = Math.abs(e.clientX - gesture.startX);
+  const dy = Math.abs(e.clientY - gesture.startY);
+  if (Math.hypot(dx, dy) < AXIS_LOCK_THRESHOLD) return "pending";
+  const along = orientation === "vertical" ? dy : dx;
+  const across = orientation === "vertical" ? dx : dy;
+  gesture.lock = along >= across ? "slider" : "page";
+  return gesture.lock;
+};
+
+/** Whether the pointer stayed close enough to where it went down to click. */
+export const isGestureTap = (gesture: PointerGesture, e: PointerEvent) =>
+  Math.hypot(e.clientX - gesture.startX, e.clientY - gesture.startY) <
+  CLICK_THRESHOLD;
+
+/**
+ * Tailwind `touch-action` class letting the browser pan the page across the
+ * slider's axis, while the slider handles movement along it.
+ */
+export const getTouchActionClass = (orientation: Orientation) =>
+  orientation === "vertical" ? "touch-pan-x" : "touch-pan-y";
@@ -0,0 +1,85 @@
+/** A single entry of the `images` prop shared by both sliders. */
+export interface SliderImage {
+  /** Image URL: a public path or a remote URL, any format the browser decodes. */
+  src: string;
+  /** Alternative text describing the image. */
+  alt: string;
+  /** Optional: Intrinsic width in pixels, used to size the plane before the texture arrives. */
+  width?: number;
+  /** Optional: Intrinsic height in pixels, used together with `width`. */
+  height?: number;
+  /** Optional: Video URL played on the slide (muted, looping, only while centered). `src` serves as its poster. */
+  video?: string;
+  /** Optional: Low-resolution image URL shown while `src` loads. */
+  thumbnail?: string;
+  /** Optional: BlurHash string decoded into a placeholder while `src` loads. Takes precedence over `thumbnail`. */
+  blurhash?: string;
+  /** Optional: Stable identifier. Falls back to the index in the list. */
+  id?: string | number;
+}
+
+/** Planes needed to fill the viewport when the image list is short. */
+export const DEFAULT_SLIDE_COUNT = 10;
+
+/**
+ * Builds the `/imgs/{n}.jpg` list the sliders used before the `images` prop
+ * existed, so `imagesAvailable` call sites keep working.
+ */
+export const createNumberedImages = (count: number): SliderImage[] =>
+  Array.from({ length: Math.max(1, count) }, (_, i) => ({
+    src: `/imgs/${i + 1}.jpg`,
+    alt: `Slide ${i + 1}`,
+    id: i + 1,
+  }));
+
+/**
+ * Rounds the requested plane count up to a whole number of passes through the
+ * image list, so the loop seam never breaks the order of the data.
+ */
+export const resolveSlideCount = (
+  imageCount: number,
+  requested?: number
+): number => {
+  if (imageCount <= 0) return 0;
+  const target = requested ?? DEFAULT_SLIDE_COUNT;
+  const passes = Math.max(1, Math.ceil(target / imageCount));
+  const resolved = passes * imageCount;
+  if (
+    requested !== undefined &&
+    resolved !== requested &&
+    process.env.NODE_ENV !== "production"
+  ) {
+    console.warn(
+      `slideCount ${requested} is not a multiple of the ${imageCount} images, using ${resolved}.`
+    );
+  }
+  return resolved;
+};
+
+/** Maps a plane index to the index of the image it displays. */
+export const getImageIndex = (planeIndex: number, imageCount: number) =>
+  ((planeIndex % imageCount) + imageCount) % imageCount;
+
+/** Mesh scale that fits an image of `imgAspect` into a slide of `slideAspect`. */
+export const getFitScale = (
+  imgAspect: number,
+  slideAspect: number,
+  fitMode: "contain" | "cover"
+) => {
+  const scale = { x: 1, y: 1 };
+  if (fitMode === "contain") {
+    if (imgAspect > slideAspect) {
+      scale.y = slideAspect / imgAspect;
+    } else {
+      scale.x = imgAspect / slideAspect;
+    }
+  } else {
+    // 'cover' mode
+    if (imgAspect > slideAspect) {
+      scale.x = imgAspect / slideAspect;
+    } else {
+      scale.y = slideAspect / imgAspect;
+    }
+  }
+  return scale;
+};
@@ -0,0 +1,19 @@
+/**
+ * Ways to move a slider:
+ * - `drag`: dragging with a mouse or pen
+ * - `touch`: swiping with a finger
+ * - `wheel`: the mouse wheel or trackpad scrolling, over the slider
+ * - `keyboard`: arrows, paging keys, Home and End while it has focus
+ */
+export type SliderInput = "drag" | "wheel" | "keyboard" | "touch";
+
+/** Leaves the wheel to the page, since contained sliders sit inside it. */
+export const DEFAULT_INPUTS: readonly SliderInput[] = [
+  "drag",
+  "touch",
+  "keyboard",
+];
+
+/** The input a pointer's movement counts as. */
+export const getPointerInput = (e: PointerEvent): SliderInput =>
+  e.pointerType === "touch" ? "touch" : "drag";
@@ -0,0 +1,40 @@
+import { Orientation, getArrowKeyStep } from "./orientation";
+
+/** Slides moved by PageUp/PageDown. */
+export const KEYBOARD_PAGE_SIZE = 3;
+
+/** What a key press asks for: a relative step, or a specific image. */
+export type KeyboardCommand =
+  { type: "step"; step: number } | { type: "index"; index: number };
+
+/**
+ * Maps a key to a navigation command, or null for keys the slider leaves
+ * alone. Arrows follow the orientation; Home/End go to the first and last
+ * image, PageUp/PageDown move by `KEYBOARD_PAGE_SIZE` slides.
+ */
+export const getKeyboardCommand = (
+  key: string,
+  orientation: Orientation,
+  imageCount: number
+): KeyboardCommand | null => {
+  const arrowStep = getArrowKeyStep(key, orientation);
+  if (arrowStep !== 0) return { type: "step", step: arrowStep };
+  switch (key) {
+    case "PageDown":
+      return { type: "step", step: KEYBOARD_PAGE_SIZE };
+    case "PageUp":
+      return { type: "step", step: -KEYBOARD_PAGE_SIZE };
+    case "Home":
+      return { type: "index", index: 0 };
+    case "End":
+      return { type: "index", index: imageCount - 1 };
+    default:
+      return null;
+  }
+};
+
+/** Whether a key press is aimed at a text field, which keeps its own keys. */
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
@@ -0,0 +1,94 @@
+import * as THREE from "three";
+import { Orientation, getAxisLength } from "./orientation";
+import { CAMERA_DISTANCE } from "./lightbox";
+
+/** Slide dimensions, in world units. */
+export interface SlideSize {
+  slideWidth: number;
+  slideHeight: number;
+  gap: number;
+}
+
+/** Size settings, as given through props or a breakpoint. */
+export interface SlideSizeOptions extends Partial<SlideSize> {
+  /**
+   * Scales slides and gap so exactly this many fit across the visible width
+   * (height when vertical), instead of using world units as given.
+   */
+  slidesPerView?: number;
+}
+
+/**
+ * Size overrides keyed by minimum container width in CSS pixels. Like
+ * `min-width` media queries, every matching entry applies, widest last.
+ */
+export type SlideBreakpoints = Record<number, SlideSizeOptions>;
+
+/** A slide size along with its extent on the scroll axis. */
+export interface SlideLayout extends SlideSize {
+  /** Size of a slide along the scroll axis. */
+  slideLength: number;
+  /** Distance between neighbouring slides: `slideLength + gap`. */
+  slideUnit: number;
+}
+
+/** Applies the breakpoints matching `containerWidth` over `base`. */
+export const resolveSlideSize = (
+  base: SlideSize & SlideSizeOptions,
+  breakpoints: SlideBreakpoints | undefined,
+  containerWidth: number
+): SlideSize & SlideSizeOptions =>
+  Object.entries(breakpoints ?? {})
+    .map(([minWidth, options]) => [Number(minWidth), options] as const)
+    .filter(([minWidth]) => containerWidth >= minWidth)
+    .sort(([a], [b]) => a - b)
+    .reduce((size, [, options]) => ({ ...size, ...options }), base);
+
+/**
+ * World-space size of what the camera sees at z = 0, where slides sit, from
+ * its resting distance. The lightbox moves the camera in, and that must not
+ * shrink the layout.
+ */
+export const getVisibleSize = (camera: THREE.PerspectiveCamera) => {
+  const fov = THREE.MathUtils.degToRad(camera.fov);
+  const height = 2 * Math.tan(fov / 2) * CAMERA_DISTANCE;
+  return { width: height * camera.aspect, height };
+};
+
+/**
+ * Final slide layout. `slidesPerView` needs the camera to measure the view;
+ * without one the size is used as given.
+ */
+export const getSlideLayout = (
+  size: SlideSize & SlideSizeOptions,
+  orientation: Orientation,
+  camera: THREE.PerspectiveCamera | null
+): SlideLayout => {
+  let { slideWidth, slideHeight, gap } = size;
+  const { slidesPerView } = size;
+  if (slidesPerView && slidesPerView > 0 && camera) {
+    const visible = getVisibleSize(camera);
+    const span =
+      slidesPerView * getAxisLength(orientation, slideWidth, slideHeight) +
+      (slidesPerView - 1) * gap;
+    const scale =
+      getAxisLength(orientation, visible.width, visible.height) / span;
+    slideWidth *= scale;
+    slideHeight *= scale;
+    gap *= scale;
+  }
+  const slideLength = getAxisLength(orientation, slideWidth, slideHeight);
+  return {
+    slideWidth,
+    slideHeight,
+    gap,
+    slideLength,
+    slideUnit: slideLength + gap,
+  };
+};
+
+/** Whether two layouts would draw the slides differently. */
+export const isSameLayout = (a: SlideLayout, b: SlideLayout) =>
+  a.slideWidth === b.slideWidth &&
+  a.slideHeight === b.slideHeight &&
+  a.gap === b.gap;
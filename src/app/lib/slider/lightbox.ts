@@ -0,0 +1,120 @@
+import * as THREE from "three";
+
+/** Camera distance from the slides while nothing is expanded. */
+export const CAMERA_DISTANCE = 5;
+
+/** Seconds an expand or collapse takes. */
+export const LIGHTBOX_DURATION = 0.6;
+
+/** Fraction of a change in zoom covered each frame, e.g. after stepping to a slide of another shape. */
+const ZOOM_SMOOTHING = 0.1;
+
+/** Per-instance lightbox state, advanced by the animation loop. */
+export interface Lightbox {
+  /** Plane shown expanded, kept while it collapses; null once closed. */
+  slide: number | null;
+  /** Whether it is expanding or expanded, as opposed to collapsing. */
+  open: boolean;
+  /** Linear transition time: 0 in the slider, 1 expanded. */
+  progress: number;
+  /** Smoothed camera distance at which the expanded plane fills the view; null until measured. */
+  distance: number | null;
+}
+
+/** Output of one `stepLightbox`. */
+export interface LightboxFrame {
+  /** Eased transition, 0–1. The bend unwinds as it grows. */
+  progress: number;
+  /** True once the transition and zoom have caught up, so frames stop changing. */
+  idle: boolean;
+}
+
+export const createLightbox = (): Lightbox => ({
+  slide: null,
+  open: false,
+  progress: 0,
+  distance: null,
+});
+
+/** Starts expanding `slide`, or switches to it when already expanded. */
+export const openLightbox = (lightbox: Lightbox, slide: number) => {
+  if (lightbox.slide === null) lightbox.distance = null;
+  lightbox.slide = slide;
+  lightbox.open = true;
+};
+
+/** Starts collapsing back into the slider. */
+export const closeLightbox = (lightbox: Lightbox) => {
+  lightbox.open = false;
+};
+
+/**
+ * Camera distance at which a plane of `width` × `height` fills the view
+ * without being cropped.
+ */
+export const getFitDistance = (
+  camera: THREE.PerspectiveCamera,
+  width: number,
+  height: number
+) => {
+  const halfFov = Math.tan(THREE.MathUtils.degToRad(camera.fov / 2));
+  return Math.max(height / 2, width / 2 / camera.aspect) / halfFov;
+};
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Advances the transition by `deltaTime` seconds and places the camera,
+ * between the slider's view and centered on the expanded plane, close
+ * enough for it to fill the view. Planes are scaled to their image's aspect,
+ * so the image shows in full. `instant` skips the transition, for reduced
+ * motion.
+ */
+export const stepLightbox = (
+  lightbox: Lightbox,
+  slides: THREE.Mesh[],
+  camera: THREE.PerspectiveCamera,
+  deltaTime: number,
+  instant: boolean
+): LightboxFrame => {
+  const slide = lightbox.slide === null ? undefined : slides[lightbox.slide];
+  if (!slide) {
+    // Closed, or the slides were rebuilt underneath it
+    lightbox.slide = null;
+    lightbox.open = false;
+    lightbox.progress = 0;
+    camera.position.set(0, 0, CAMERA_DISTANCE);
+    return { progress: 0, idle: true };
+  }
+  const end = lightbox.open ? 1 : 0;
+  const step = instant ? 1 : deltaTime / LIGHTBOX_DURATION;
+  lightbox.progress =
+    end > lightbox.progress
+      ? Math.min(end, lightbox.progress + step)
+      : Math.max(end, lightbox.progress - step);
+
+  const { width, height } = (slide.geometry as THREE.PlaneGeometry).parameters;
+  const fitDistance = getFitDistance(
+    camera,
+    width * slide.scale.x,
+    height * slide.scale.y
+  );
+  // Fresh transitions start at the target zoom; switching slides eases to it
+  const distance =
+    instant || lightbox.distance === null
+      ? fitDistance
+      : lightbox.distance + (fitDistance - lightbox.distance) * ZOOM_SMOOTHING;
+  lightbox.distance = distance;
+
+  const progress = easeInOutCubic(lightbox.progress);
+  camera.position.set(
+    slide.position.x * progress,
+    slide.position.y * progress,
+    THREE.MathUtils.lerp(CAMERA_DISTANCE, distance, progress)
+  );
+  const idle =
+    lightbox.progress === end && Math.abs(fitDistance - distance) < 0.001;
+  if (lightbox.progress === 0 && !lightbox.open) lightbox.slide = null;
+  return { progress, idle };
+};
@@ -0,0 +1,313 @@
+import * as THREE from "three";
+import { decode } from "blurhash";
+import { SliderImage } from "./images";
+import { SliderCallbacks } from "./events";
+import { TextureHandle, acquireTexture } from "./textures";
+import { SlideVideo, acquireSlideVideo } from "./video";
+
+/** Duration of the crossfade from placeholder to image, in seconds. */
+export const FADE_DURATION = 0.4;
+
+/** Placeholder color used when none is given. */
+export const DEFAULT_PLACEHOLDER_COLOR = "#1a1a1a";
+
+// Longest side of a decoded BlurHash, in pixels
+const BLURHASH_SIZE = 32;
+
+/** How slides look before, and instead of, their image. */
+export interface SlideLoadingOptions {
+  /** Shown until the image, or its `blurhash`/`thumbnail`, is ready. */
+  placeholderColor: THREE.ColorRepresentation;
+  /** Loaded in place of an image that fails. */
+  fallbackSrc?: string;
+  /** Builds the texture for an image that fails, when there is no `fallbackSrc` or it fails too. */
+  renderError?: (image: SliderImage) => THREE.Texture;
+}
+
+/** Loading state of one slide, kept in its mesh's `userData.loading`. */
+export interface SlideLoading {
+  /** Advances the crossfade by `deltaTime` seconds. */
+  step: (deltaTime: number) => void;
+  /** Plays or pauses a video slide; stills ignore it. */
+  setPlaying: (playing: boolean) => void;
+  /** True while a crossfade or a playing video needs new frames. */
+  isAnimating: () => boolean;
+  /** Releases the textures and ignores loads still in flight. */
+  dispose: () => void;
+}
+
+/**
+ * Creates the manager tracking every image a slider requests, reporting to
+ * the latest callbacks. Placeholder thumbnails bypass it, so progress counts
+ * slide images only.
+ */
+export const createLoadingManager = (callbacks: {
+  readonly current: SliderCallbacks;
+}) => {
+  const manager = new THREE.LoadingManager();
+  manager.onProgress = (url, loaded, total) =>
+    callbacks.current.onLoadProgress?.({ url, loaded, total });
+  manager.onLoad = () => callbacks.current.onLoadComplete?.();
+  return manager;
+};
+
+const createCanvasTexture = (
+  width: number,
+  height: number,
+  draw: (context: CanvasRenderingContext2D) => void
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (context) draw(context);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+const createColorTexture = (color: THREE.ColorRepresentation) =>
+  createCanvasTexture(1, 1, (context) => {
+    context.fillStyle = `#${new THREE.Color(color).getHexString()}`;
+    context.fillRect(0, 0, 1, 1);
+  });
+
+const createBlurhashTexture = (image: SliderImage) => {
+  const aspect = image.width && image.height ? image.width / image.height : 1;
+  const width = Math.round(
+    aspect >= 1 ? BLURHASH_SIZE : BLURHASH_SIZE * aspect
+  );
+  const height = Math.round(
+    aspect >= 1 ? BLURHASH_SIZE / aspect : BLURHASH_SIZE
+  );
+  try {
+    const pixels = decode(image.blurhash!, width, height);
+    return createCanvasTexture(width, height, (context) =>
+      context.putImageData(new ImageData(pixels, width, height), 0, 0)
+    );
+  } catch (err) {
+    console.warn(`Invalid blurhash for ${image.src}`, err);
+    return null;
+  }
+};
+
+// Videos report their size separately from the element's layout size
+const getTextureAspect = (texture: THREE.Texture) => {
+  const source = texture.image as { width: number; height: number };
+  return source instanceof HTMLVideoElement
+    ? source.videoWidth / source.videoHeight
+    : source.width / source.height;
+};
+
+// Blends from the placeholder to the image. Injected after the distortion
+// effect's fragment code, which also runs after <map_fragment>
+const FADE_FRAGMENT = /* glsl */ `
+#ifdef USE_MAP
+  diffuseColor.rgb = mix(
+    texture2D(uPlaceholderMap, vMapUv).rgb,
+    diffuseColor.rgb,
+    uFade
+  );
+#endif
+#include <color_fragment>
+`;
+
+/**
+ * Shows a placeholder on `material`, takes the image from the shared texture
+ * cache (tracked by `manager`), and crossfades to it once it arrives. Falls back to `fallbackSrc`, then to
+ * `renderError`, when loads fail. Slides with a `video` show `src` as the
+ * poster, then crossfade to the video's first frame. `onAspect` receives the
+ * aspect ratio of what ends up on the slide, for sizing, and `onChange` runs
+ * whenever a texture arrives, so an idle slider draws again.
+ */
+export const loadSlideTexture = (
+  material: THREE.MeshBasicMaterial,
+  image: SliderImage,
+  manager: THREE.LoadingManager,
+  options: { readonly current: SlideLoadingOptions },
+  onAspect: (aspect: number) => void,
+  onChange: () => void
+): SlideLoading => {
+  const uniforms = {
+    uFade: { value: 1 },
+    uPlaceholderMap: { value: null as THREE.Texture | null },
+  };
+  const previousCompile = material.onBeforeCompile;
+  const previousKey = material.customProgramCacheKey();
+  material.onBeforeCompile = (shader, renderer) => {
+    previousCompile.call(material, shader, renderer);
+    Object.assign(shader.uniforms, uniforms);
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nuniform sampler2D uPlaceholderMap;\nuniform float uFade;"
+      )
+      .replace("#include <color_fragment>", FADE_FRAGMENT);
+  };
+  material.customProgramCacheKey = () => `${previousKey}-fade`;
+
+  let disposed = false;
+  let settled = false; // The image, fallback or error texture is showing
+  let placeholder: THREE.Texture | null = null;
+  let ownsPlaceholder = false; // Generated here rather than shared
+  let errorTexture: THREE.Texture | null = null;
+  let video: SlideVideo | null = null;
+  let showingVideo = false; // Late stills must not replace the video
+  let playing = false;
+  let endVideoItem: (() => void) | null = null; // Until the video settles
+  const handles: TextureHandle[] = [];
+  material.color.set(options.current.placeholderColor);
+
+  const dropPlaceholder = () => {
+    if (placeholder && ownsPlaceholder) placeholder.dispose();
+    placeholder = null;
+    uniforms.uPlaceholderMap.value = null;
+  };
+
+  const showPlaceholder = (texture: THREE.Texture, owned: boolean) => {
+    if (disposed || settled) {
+      if (owned) texture.dispose();
+      return;
+    }
+    placeholder = texture;
+    ownsPlaceholder = owned;
+    material.map = texture;
+    material.color.set(0xffffff);
+    material.needsUpdate = true;
+    onChange();
+  };
+
+  const showImage = (texture: THREE.Texture, fade = true) => {
+    if (disposed || showingVideo) return;
+    settled = true;
+    if (fade) {
+      // Fade from whatever shows now; a bare color becomes a 1px texture
+      if (!placeholder) {
+        placeholder = createColorTexture(options.current.placeholderColor);
+        ownsPlaceholder = true;
+      }
+      uniforms.uPlaceholderMap.value = placeholder;
+      uniforms.uFade.value = 0;
+    } else {
+      dropPlaceholder();
+    }
+    material.map = texture;
+    material.color.set(0xffffff);
+    material.needsUpdate = true;
+    onAspect(getTextureAspect(texture));
+    onChange();
+  };
+
+  const showVideo = (texture: THREE.VideoTexture) => {
+    if (disposed) return;
+    // Crossfade from the poster, or whatever else is showing by now
+    if (settled && material.map) {
+      dropPlaceholder();
+      placeholder = material.map;
+      ownsPlaceholder = false;
+    }
+    showImage(texture);
+    showingVideo = true;
+  };
+
+  const showError = (err: unknown) => {
+    if (disposed) return;
+    console.warn(`Couldn't load image ${image.src}`, err);
+    errorTexture = options.current.renderError?.(image) ?? null;
+    if (errorTexture) {
+      errorTexture.colorSpace = THREE.SRGBColorSpace;
+      showImage(errorTexture);
+    }
+  };
+
+  // Images count towards the slider's progress; thumbnails don't
+  const acquire = (url: string, tracked: boolean) => {
+    const handle = acquireTexture(url, tracked ? manager : undefined);
+    handles.push(handle);
+    return handle;
+  };
+
+  const imageHandle = acquire(image.src, true);
+  if (imageHandle.texture) {
+    // Already decoded for another plane or slider: no placeholder needed
+    showImage(imageHandle.texture, false);
+  } else {
+    if (image.blurhash) {
+      const texture = createBlurhashTexture(image);
+      if (texture) showPlaceholder(texture, true);
+    } else if (image.thumbnail) {
+      acquire(image.thumbnail, false).promise.then(
+        (texture) => showPlaceholder(texture, false),
+        () => {} // The color placeholder stays
+      );
+    }
+    imageHandle.promise.then(showImage, (err) => {
+      const { fallbackSrc } = options.current;
+      if (disposed) return;
+      if (fallbackSrc && fallbackSrc !== image.src) {
+        acquire(fallbackSrc, true).promise.then(showImage, showError);
+      } else {
+        showError(err);
+      }
+    });
+  }
+
+  if (image.video) {
+    const url = image.video;
+    const slideVideo = acquireSlideVideo(url);
+    video = slideVideo;
+    manager.itemStart(url);
+    // Balanced exactly once: when the video settles, or on dispose, since a
+    // released video may never settle and the manager outlives the slide
+    endVideoItem = () => {
+      endVideoItem = null;
+      manager.itemEnd(url);
+    };
+    slideVideo.metadata.then(
+      (aspect) => {
+        if (disposed) return;
+        onAspect(aspect);
+        onChange();
+      },
+      () => {}
+    );
+    slideVideo.ready.then(
+      () => {
+        endVideoItem?.();
+        showVideo(slideVideo.texture);
+      },
+      (err) => {
+        if (disposed) return;
+        manager.itemError(url);
+        endVideoItem?.();
+        console.warn(`Couldn't load video ${url}`, err);
+      }
+    );
+  }
+
+  return {
+    setPlaying(next) {
+      playing = next;
+      video?.setPlaying(next);
+    },
+    isAnimating() {
+      return uniforms.uFade.value < 1 || (showingVideo && playing);
+    },
+    step(deltaTime) {
+      if (uniforms.uFade.value >= 1) return;
+      uniforms.uFade.value = Math.min(
+        1,
+        uniforms.uFade.value + deltaTime / FADE_DURATION
+      );
+      if (uniforms.uFade.value === 1) dropPlaceholder();
+    },
+    dispose() {
+      disposed = true;
+      dropPlaceholder();
+      errorTexture?.dispose();
+      video?.release();
+      endVideoItem?.();
+      handles.forEach((handle) => handle.release());
+    },
+  };
+};
@@ -0,0 +1,449 @@
+import {
+  SnapMode,
+  SNAP_SPEED_THRESHOLD,
+  cancelSnap,
+  createSnapState,
+  getSnapTarget,
+  isSnapped,
+  stepSnap,
+} from "./snap";
+
+/**
+ * Physics shared by both sliders. Smoothing and decay factors are applied
+ * once per frame, so they assume the ~60 fps of requestAnimationFrame.
+ */
+export interface MotionSettings {
+  /** Scales release velocity into momentum speed. */
+  momentumMultiplier: number;
+  /** Per-frame momentum decay when coasting slowly; faster momentum decays harder. */
+  momentumDecay: number;
+  /** Strongest per-frame momentum decay, reached at high speed. */
+  minMomentumDecay: number;
+  /** Fraction of the remaining distance to the target covered each frame. */
+  smoothing: number;
+  /** Fraction of the remaining distance each plane covers each frame. */
+  slideLerp: number;
+  /** Per-frame decay of the distortion target. */
+  distortionDecay: number;
+  /** Distortion added per unit of velocity. */
+  distortionSensitivity: number;
+  /** Fraction of the remaining distance to the distortion target covered each frame. */
+  distortionSmoothing: number;
+  /** Extra factor on `distortionDecay` while input is active and still accelerating. */
+  activeDistortionDecay: number;
+}
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+  momentumMultiplier: 2,
+  momentumDecay: 0.97,
+  minMomentumDecay: 0.92,
+  smoothing: 0.1,
+  slideLerp: 0.075,
+  distortionDecay: 0.95,
+  distortionSensitivity: 0.15,
+  distortionSmoothing: 0.075,
+  activeDistortionDecay: 0.98,
+};
+
+/** Geometry of the loop, in world units. */
+export interface MotionLayout {
+  slideCount: number;
+  slideUnit: number;
+  /** Slide size along the scroll axis. */
+  slideLength: number;
+  /**
+   * Whether the planes wrap around endlessly. When false they are laid out
+   * once, and the scroll position is held between the first and last slide.
+   */
+  loop: boolean;
+}
+
+/** Output of one `step`. */
+export interface MotionFrame {
+  /** Smoothed scroll position. */
+  position: number;
+  /** Signed rate of change of the scroll position, in units per second. */
+  velocity: number;
+  /** Bend strength to render, 0–1. */
+  distortion: number;
+  /** Per-plane offset from the center, wrapped around the loop. Reused between frames. */
+  slidePositions: readonly number[];
+  /** True once nothing moves: no input, momentum, snap or glide left. */
+  settled: boolean;
+  /** True once settled and the planes and distortion have caught up too, so frames stop changing. */
+  idle: boolean;
+}
+
+/** Options for `SliderMotion.navigate`. */
+export interface NavigateOptions {
+  /** Distortion kick added for the transition, 0–1. Default: 0 */
+  distortion?: number;
+  /** Glide to the target instead of jumping. Default: true */
+  animate?: boolean;
+}
+
+/** Framework-agnostic motion model: feed it input, `step` it once per frame. */
+export interface SliderMotion {
+  readonly position: number;
+  readonly target: number;
+  /** Whether a pointer is holding the slider. */
+  readonly isHeld: boolean;
+  /** Whether a wheel gesture is in progress (between `scroll` and `endScroll`). */
+  readonly isScrolling: boolean;
+  setSettings: (settings: Partial<MotionSettings>) => void;
+  setSnapMode: (mode: SnapMode) => void;
+  /**
+   * Reduced motion: no momentum and no distortion, and navigation and
+   * snapping jump to their target instead of gliding.
+   */
+  setReducedMotion: (reduced: boolean) => void;
+  /** Sets the planes to lay out. New spacing rescales the position, keeping the same slide in view. */
+  setLayout: (layout: MotionLayout) => void;
+  /** Moves instantly to `position`, with no glide and no momentum. */
+  jumpTo: (position: number) => void;
+  /** A pointer took hold: stop momentum and snapping. */
+  grab: () => void;
+  /**
+   * Moves the held slider by `delta`, adding `distortion` to the bend. Past
+   * either end of a finite slider the movement meets rubber-band resistance.
+   */
+  drag: (delta: number, distortion: number) => void;
+  /**
+   * Lets go, flinging with `velocity` (units of 200 px of drag, signed in
+   * scroll direction). Returns whether it was fast enough to start momentum.
+   */
+  release: (velocity: number) => boolean;
+  /** A wheel-style impulse: move by `delta` and coast at `speed` per frame. */
+  scroll: (delta: number, speed: number, distortion: number) => void;
+  /** The wheel gesture is over: drop any remaining coasting speed. */
+  endScroll: () => void;
+  /**
+   * Heads for an absolute scroll position, cancelling momentum and snapping.
+   * Finite sliders stop at the first or last slide, and a target that
+   * doesn't move gets no distortion kick.
+   */
+  navigate: (target: number, options?: NavigateOptions) => void;
+  /** Adds to the bend without moving. */
+  kick: (distortion: number) => void;
+  /** Advances the simulation by `deltaTime` seconds. */
+  step: (deltaTime: number) => MotionFrame;
+}
+
+/** Release velocity above which a drag turns into momentum. */
+const FLICK_THRESHOLD = 0.5;
+/** Momentum speed below which coasting stops. */
+const MIN_SPEED = 0.001;
+/** Position delta under which the slider is considered at rest. */
+export const SETTLE_EPSILON = 0.001;
+
+const VELOCITY_SAMPLES = 5;
+
+// Finite edges: the share of movement kept when pulling past an end (falling
+// off further out), and the per-frame braking of momentum past an end
+const RUBBER_BAND_RESISTANCE = 0.35;
+const EDGE_BRAKE = 0.5;
+
+const addDistortion = (current: number, amount: number) =>
+  Math.min(1.0, current + amount);
+
+export const createSliderMotion = (
+  initialSettings: Partial<MotionSettings> = {}
+): SliderMotion => {
+  const settings: MotionSettings = {
+    ...DEFAULT_MOTION_SETTINGS,
+    ...initialSettings,
+  };
+  let snapMode: SnapMode = "none";
+  let reducedMotion = false;
+  let layout: MotionLayout = {
+    slideCount: 0,
+    slideUnit: 1,
+    slideLength: 1,
+    loop: true,
+  };
+
+  let position = 0;
+  let target = 0;
+  let speed = 0; // Momentum, in units per frame
+  let isHeld = false;
+  let isScrolling = false;
+  let jumpPending = false;
+  let currentDistortion = 0;
+  let targetDistortion = 0;
+  let peakVelocity = 0;
+  const velocityHistory: number[] = Array(VELOCITY_SAMPLES).fill(0);
+  const snap = createSnapState();
+  // Per-plane wrapped targets and their lerped positions
+  const slideTargets: number[] = [];
+  const slidePositions: number[] = [];
+
+  const wrapSlide = (index: number) => {
+    if (!layout.loop) return index * layout.slideUnit - position;
+    const totalWidth = layout.slideCount * layout.slideUnit;
+    let baseX = index * layout.slideUnit - position;
+    baseX = ((baseX % totalWidth) + totalWidth) % totalWidth;
+    if (baseX > totalWidth / 2) baseX -= totalWidth;
+    return baseX;
+  };
+
+  // Signed distance of `value` past the first or last slide, 0 within them
+  const getOvershoot = (value: number) => {
+    if (layout.loop) return 0;
+    const max = Math.max(0, layout.slideCount - 1) * layout.slideUnit;
+    if (value < 0) return value;
+    if (value > max) return value - max;
+    return 0;
+  };
+
+  // Scales movement heading further past an end
+  const resist = (delta: number) => {
+    const overshoot = getOvershoot(target);
+    if (overshoot === 0 || Math.sign(delta) !== Math.sign(overshoot)) {
+      return delta;
+    }
+    return (
+      (delta * RUBBER_BAND_RESISTANCE) /
+      (1 + Math.abs(overshoot) / layout.slideLength)
+    );
+  };
+
+  const stopMomentum = () => {
+    speed = 0;
+    cancelSnap(snap);
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    get target() {
+      return target;
+    },
+    get isHeld() {
+      return isHeld;
+    },
+    get isScrolling() {
+      return isScrolling;
+    },
+
+    setSettings(next) {
+      Object.assign(settings, next);
+    },
+
+    setSnapMode(mode) {
+      snapMode = mode;
+      if (mode === "none") cancelSnap(snap);
+    },
+
+    setReducedMotion(reduced) {
+      reducedMotion = reduced;
+      if (reduced) speed = 0;
+    },
+
+    setLayout(next) {
+      // Resizing keeps the same slide in view, however far along it is
+      if (layout.slideCount > 0 && next.slideUnit !== layout.slideUnit) {
+        const scale = next.slideUnit / layout.slideUnit;
+        position *= scale;
+        target *= scale;
+        speed *= scale;
+        if (snap.target !== null) snap.target *= scale;
+        snap.velocity *= scale;
+      }
+      layout = next;
+      slideTargets.length = layout.slideCount;
+      slidePositions.length = layout.slideCount;
+      for (let i = 0; i < layout.slideCount; i++) {
+        slideTargets[i] = wrapSlide(i);
+        slidePositions[i] = slideTargets[i];
+      }
+    },
+
+    jumpTo(next) {
+      stopMomentum();
+      target = next - getOvershoot(next);
+      position = target;
+      jumpPending = true;
+    },
+
+    grab() {
+      isHeld = true;
+      peakVelocity = 0;
+      stopMomentum();
+    },
+
+    drag(delta, distortion) {
+      target += resist(delta);
+      targetDistortion = addDistortion(targetDistortion, distortion);
+    },
+
+    release(velocity) {
+      isHeld = false;
+      const flicked = !reducedMotion && Math.abs(velocity) > FLICK_THRESHOLD;
+      if (flicked) {
+        speed = velocity * settings.momentumMultiplier * 0.05;
+        targetDistortion = addDistortion(
+          targetDistortion,
+          Math.abs(velocity) * settings.distortionSensitivity * 1.5
+        );
+      }
+      return flicked;
+    },
+
+    scroll(delta, nextSpeed, distortion) {
+      cancelSnap(snap);
+      isScrolling = true;
+      target += resist(delta);
+      speed = reducedMotion ? 0 : nextSpeed;
+      targetDistortion = addDistortion(targetDistortion, distortion);
+    },
+
+    endScroll() {
+      isScrolling = false;
+      speed = 0;
+    },
+
+    navigate(next, { distortion = 0, animate = true } = {}) {
+      stopMomentum();
+      const clamped = next - getOvershoot(next);
+      // Pushing against an end goes nowhere, so it shouldn't bend either
+      if (clamped !== target) {
+        targetDistortion = addDistortion(targetDistortion, distortion);
+      }
+      target = clamped;
+      if (!animate || reducedMotion) jumpPending = true;
+    },
+
+    kick(distortion) {
+      targetDistortion = addDistortion(targetDistortion, distortion);
+    },
+
+    step(deltaTime) {
+      if (jumpPending) position = target;
+      const prevPosition = position;
+
+      // Momentum
+      if (!isHeld && Math.abs(speed) > MIN_SPEED) {
+        target += speed;
+        const speedBasedDecay = settings.momentumDecay - Math.abs(speed) * 0.5;
+        speed *= Math.max(settings.minMomentumDecay, speedBasedDecay);
+        if (Math.abs(speed) < MIN_SPEED) speed = 0;
+      } else if (!isHeld) {
+        speed = 0;
+      }
+
+      // Past an end of a finite slider: brake, then spring back to the edge
+      const overshoot = getOvershoot(target);
+      if (overshoot !== 0 && !isHeld) {
+        speed *= EDGE_BRAKE;
+        if (
+          !isScrolling &&
+          Math.abs(speed) < SNAP_SPEED_THRESHOLD &&
+          snap.target === null
+        ) {
+          snap.target = target - overshoot;
+          snap.velocity = speed;
+          speed = 0;
+        }
+      }
+
+      // Snap onto a slide boundary once momentum has faded
+      if (
+        snapMode !== "none" &&
+        !isHeld &&
+        !isScrolling &&
+        Math.abs(speed) < SNAP_SPEED_THRESHOLD &&
+        snap.target === null &&
+        !isSnapped(target, layout.slideUnit)
+      ) {
+        snap.target = getSnapTarget(
+          target,
+          layout.slideUnit,
+          snapMode,
+          Math.sign(speed) || Math.sign(target - position)
+        );
+        // Carry what is left of the momentum into the spring
+        snap.velocity = speed;
+        speed = 0;
+      }
+      if (reducedMotion && snap.target !== null) {
+        // Land on the boundary (or edge) at once
+        target = snap.target;
+        position = target;
+        cancelSnap(snap);
+        jumpPending = true;
+      }
+      target = stepSnap(snap, target);
+
+      position += (target - position) * settings.smoothing;
+
+      // Velocity & distortion
+      const isActive = isHeld || isScrolling;
+      const signedVelocity = (position - prevPosition) / deltaTime;
+      const currentVelocity = Math.abs(signedVelocity);
+      velocityHistory.push(currentVelocity);
+      velocityHistory.shift();
+      const avgVelocity =
+        velocityHistory.reduce((sum, val) => sum + val, 0) /
+        velocityHistory.length;
+      if (avgVelocity > peakVelocity) peakVelocity = avgVelocity;
+      const velocityRatio =
+        peakVelocity > 0.001 ? avgVelocity / peakVelocity : 0;
+      const isDecelerating = velocityRatio < 0.7 && peakVelocity > 0.5;
+      peakVelocity *= 0.99;
+      const movementDistortion = Math.min(
+        1.0,
+        currentVelocity * settings.distortionSensitivity
+      );
+      if (currentVelocity > 0.05 || isHeld) {
+        targetDistortion = Math.max(targetDistortion, movementDistortion);
+      }
+      const decayRate =
+        isDecelerating || avgVelocity < 0.2 || !isActive
+          ? settings.distortionDecay
+          : settings.distortionDecay * settings.activeDistortionDecay;
+      targetDistortion *= decayRate;
+      currentDistortion +=
+        (targetDistortion - currentDistortion) * settings.distortionSmoothing;
+      if (reducedMotion) {
+        targetDistortion = 0;
+        currentDistortion = 0;
+      }
+
+      // Slide layout: planes lerp towards their wrapped slot, and snap
+      // across the seam instead of sliding the whole loop back
+      let slidesAtRest = true;
+      for (let i = 0; i < layout.slideCount; i++) {
+        const baseX = wrapSlide(i);
+        const isWrapping =
+          Math.abs(baseX - slideTargets[i]) > layout.slideLength * 2;
+        if (isWrapping || jumpPending) slidePositions[i] = baseX;
+        slideTargets[i] = baseX;
+        slidePositions[i] += (baseX - slidePositions[i]) * settings.slideLerp;
+        if (Math.abs(baseX - slidePositions[i]) >= SETTLE_EPSILON) {
+          slidesAtRest = false;
+        }
+      }
+      jumpPending = false;
+
+      const settled =
+        !isHeld &&
+        !isScrolling &&
+        speed === 0 &&
+        snap.target === null &&
+        Math.abs(target - position) < SETTLE_EPSILON;
+      return {
+        position,
+        velocity: signedVelocity,
+        distortion: currentDistortion,
+        slidePositions,
+        settled,
+        idle:
+          settled &&
+          slidesAtRest &&
+          targetDistortion < SETTLE_EPSILON &&
+          currentDistortion < SETTLE_EPSILON,
+      };
+    },
+  };
+};
@@ -0,0 +1,131 @@
+/** Options accepted by `SliderHandle.goTo`. */
+export interface GoToOptions {
+  /** Glide to the slide instead of jumping. Default: true */
+  animate?: boolean;
+  /** Distortion kick added for the transition, 0–1. Default: 0.3 (0 when not animating) */
+  distortion?: number;
+}
+
+/** Imperative controller exposed by both sliders through `ref`. */
+export interface SliderHandle {
+  /** Advance to the following image in the list. */
+  next: (options?: GoToOptions) => void;
+  /** Go back to the preceding image in the list. */
+  prev: (options?: GoToOptions) => void;
+  /** Center the image at `index`, taking the shortest way around the loop. */
+  goTo: (index: number, options?: GoToOptions) => void;
+  /** Index into the image list of the slide currently closest to center. */
+  getActiveIndex: () => number;
+  /**
+   * Continuous position through the image list, as the progress bar shows
+   * it: from 0 up to (not including) 1 around a loop, 0 to 1 from the first
+   * to the last slide of a finite slider.
+   */
+  getProgress: () => number;
+}
+
+/** Default distortion kick for keyboard and imperative navigation. */
+export const NAVIGATION_DISTORTION = 0.3;
+
+const wrap = (value: number, length: number) =>
+  ((value % length) + length) % length;
+
+/**
+ * A plane sits in the center when `index * slideUnit - position` is a multiple
+ * of the loop width, so the scroll position measured in slides is the index.
+ */
+export const getCenteredSlide = (position: number, slideUnit: number) =>
+  Math.round(position / slideUnit);
+
+/**
+ * Index into the image list shown at the center for a scroll position. A
+ * finite slider pulled past an end still shows its first or last slide.
+ */
+export const getActiveImageIndex = (
+  position: number,
+  slideUnit: number,
+  imageCount: number,
+  loop: boolean
+) => {
+  const slide = getCenteredSlide(position, slideUnit);
+  if (loop) return wrap(slide, imageCount);
+  return Math.min(imageCount - 1, Math.max(0, slide));
+};
+
+/**
+ * Scroll position that centers `imageIndex`, picking the closest of its
+ * repeats so the slider never travels more than half the list.
+ */
+export const getShortestTarget = (
+  fromPosition: number,
+  slideUnit: number,
+  imageIndex: number,
+  imageCount: number
+) => {
+  const fromSlide = getCenteredSlide(fromPosition, slideUnit);
+  let delta = wrap(imageIndex - fromSlide, imageCount);
+  if (delta > imageCount / 2) delta -= imageCount;
+  return (fromSlide + delta) * slideUnit;
+};
+
+/**
+ * Scroll position that centers `imageIndex`. Looping sliders take the
+ * shortest way around; in finite ones planes map one-to-one to images.
+ */
+export const getImageTarget = (
+  fromPosition: number,
+  slideUnit: number,
+  imageIndex: number,
+  imageCount: number,
+  loop: boolean
+) =>
+  loop
+    ? getShortestTarget(fromPosition, slideUnit, imageIndex, imageCount)
+    : imageIndex * slideUnit;
+
+/** Fraction of the image list scrolled through, in [0, 1). */
+export const getLoopProgress = (
+  position: number,
+  slideUnit: number,
+  imageCount: number
+) => wrap(position / slideUnit, imageCount) / imageCount;
+
+/**
+ * Fraction shown by the progress bar: through the loop, or from the first to
+ * the last slide of a finite slider.
+ */
+export const getTrackProgress = (
+  position: number,
+  slideUnit: number,
+  imageCount: number,
+  loop: boolean
+) => {
+  if (loop) return getLoopProgress(position, slideUnit, imageCount);
+  if (imageCount < 2) return 0;
+  const progress = position / ((imageCount - 1) * slideUnit);
+  return Math.min(1, Math.max(0, progress));
+};
+
+/** Scroll position `step` slides away from the slide nearest `fromPosition`. */
+export const getStepTarget = (
+  fromPosition: number,
+  slideUnit: number,
+  step: number
+) => (getCenteredSlide(fromPosition, slideUnit) + step) * slideUnit;
+
+/**
+ * Where autoplay heads next: `step` slides on, except that a finite slider
+ * rewinds from its last slide to the first (or the reverse, going
+ * backwards) instead of stopping at the end.
+ */
+export const getAutoplayTarget = (
+  fromPosition: number,
+  slideUnit: number,
+  step: number,
+  slideCount: number,
+  loop: boolean
+) => {
+  const index = getCenteredSlide(fromPosition, slideUnit) + step;
+  if (loop || (index >= 0 && index < slideCount)) return index * slideUnit;
+  return step > 0 ? 0 : (slideCount - 1) * slideUnit;
+};
@@ -0,0 +1,51 @@
+import * as THREE from "three";
+
+/** Axis the slides are laid out and scrolled along. */
+export type Orientation = "horizontal" | "vertical";
+
+/** Size of a slide along the scroll axis. */
+export const getAxisLength = (
+  orientation: Orientation,
+  slideWidth: number,
+  slideHeight: number
+) => (orientation === "vertical" ? slideHeight : slideWidth);
+
+/**
+ * World-space direction a slide travels as its loop offset grows. Vertical
+ * loops run top to bottom, so the next slide sits below the current one.
+ */
+export const getSlideAxis = (orientation: Orientation) =>
+  orientation === "vertical"
+    ? new THREE.Vector2(0, -1)
+    : new THREE.Vector2(1, 0);
+
+/** Places a slide at `offset` along the scroll axis. */
+export const setSlideOffset = (
+  slide: THREE.Object3D,
+  orientation: Orientation,
+  offset: number
+) => {
+  if (orientation === "vertical") slide.position.y = -offset;
+  else slide.position.x = offset;
+};
+
+/** A pointer's coordinate along the scroll axis, in pixels. */
+export const getPointerAxis = (
+  point: { clientX: number; clientY: number },
+  orientation: Orientation
+) => (orientation === "vertical" ? point.clientY : point.clientX);
+
+/**
+ * Slides an arrow key moves by: 1 towards the next slide, -1 towards the
+ * previous one, 0 for keys that don't belong to the orientation.
+ */
+export const getArrowKeyStep = (key: string, orientation: Orientation) => {
+  if (orientation === "vertical") {
+    if (key === "ArrowDown") return 1;
+    if (key === "ArrowUp") return -1;
+  } else {
+    if (key === "ArrowLeft") return 1;
+    if (key === "ArrowRight") return -1;
+  }
+  return 0;
+};
@@ -0,0 +1,65 @@
+import { DEFAULT_MOTION_SETTINGS, MotionSettings } from "./motion";
+
+/** Every tunable of a slider: the motion engine's settings plus input and rendering scales. */
+export interface SliderPhysics extends MotionSettings {
+  /** World units moved per pixel of drag or touch movement. */
+  dragSensitivity: number;
+  /** World units moved per pixel of wheel delta. */
+  wheelSensitivity: number;
+  /** Turns the pixel distance of a drag into release velocity. */
+  flickFactor: number;
+  /** Displacement at full distortion, in world units. */
+  maxDistortion: number;
+}
+
+export type PhysicsPreset = "default" | "snappy" | "floaty" | "subtle";
+
+/**
+ * A preset name, or overrides applied on top of a preset (`"default"` when
+ * `preset` is omitted).
+ */
+export type PhysicsProp =
+  PhysicsPreset | (Partial<SliderPhysics> & { preset?: PhysicsPreset });
+
+export const DEFAULT_PHYSICS: SliderPhysics = {
+  ...DEFAULT_MOTION_SETTINGS,
+  dragSensitivity: 0.02,
+  wheelSensitivity: 0.01,
+  flickFactor: 0.005,
+  maxDistortion: 2.5,
+};
+
+// Presets adjust a component's own defaults rather than replacing them
+const PHYSICS_PRESETS: Record<PhysicsPreset, Partial<SliderPhysics>> = {
+  default: {},
+  snappy: {
+    smoothing: 0.2,
+    slideLerp: 0.15,
+    momentumMultiplier: 1.2,
+    momentumDecay: 0.9,
+    minMomentumDecay: 0.85,
+    distortionDecay: 0.9,
+  },
+  floaty: {
+    smoothing: 0.05,
+    slideLerp: 0.04,
+    momentumMultiplier: 3,
+    momentumDecay: 0.985,
+    minMomentumDecay: 0.95,
+    distortionSmoothing: 0.05,
+  },
+  subtle: {
+    maxDistortion: 1.0,
+    distortionSensitivity: 0.08,
+  },
+};
+
+/** Merges a `physics` prop over a component's defaults. */
+export const resolvePhysics = (
+  physics: PhysicsProp,
+  defaults: SliderPhysics = DEFAULT_PHYSICS
+): SliderPhysics => {
+  const { preset = "default", ...overrides } =
+    typeof physics === "string" ? { preset: physics } : physics;
+  return { ...defaults, ...PHYSICS_PRESETS[preset], ...overrides };
+};
@@ -0,0 +1,113 @@
+import * as THREE from "three";
+import { DistortionUniforms } from "./effects";
+
+/** Fine-tuning for the `pointerEffects` prop. */
+export interface PointerEffectsOptions {
+  /** Move the distortion center to the pointer instead of the middle of the view. Default: true */
+  followCenter?: boolean;
+  /** Effect under a hovering cursor while the slider is at rest. Default: 'bulge' */
+  hover?: "bulge" | "tilt" | "none";
+  /** Strength of the hover effect, as a fraction of `maxDistortion`. Default: 0.1 */
+  hoverStrength?: number;
+  /** Fraction of the way to the pointer covered each frame. Default: 0.1 */
+  smoothing?: number;
+}
+
+/** `true` enables pointer effects with the defaults. */
+export type PointerEffectsProp = boolean | PointerEffectsOptions;
+
+const DEFAULT_POINTER_EFFECTS: Required<PointerEffectsOptions> = {
+  followCenter: true,
+  hover: "bulge",
+  hoverStrength: 0.1,
+  smoothing: 0.1,
+};
+
+/** Fills in defaults, or returns null when pointer effects are off. */
+export const resolvePointerEffects = (
+  pointerEffects: PointerEffectsProp | undefined
+): Required<PointerEffectsOptions> | null => {
+  if (!pointerEffects) return null;
+  return pointerEffects === true
+    ? DEFAULT_POINTER_EFFECTS
+    : { ...DEFAULT_POINTER_EFFECTS, ...pointerEffects };
+};
+
+/**
+ * Per-instance pointer state, set by the handlers and eased into the
+ * distortion uniforms by the animation loop. Touch only ever sets `point`
+ * while a finger is down, and never hovers.
+ */
+export interface PointerTracker {
+  /** World-space point under the pointer on the slides' plane; null once it leaves. */
+  point: THREE.Vector2 | null;
+  /** Slide under a mouse or pen that hovers without pressing. */
+  hoveredSlide: THREE.Mesh | null;
+  /** Eased hover strength, up to `hoverStrength`. */
+  hover: number;
+}
+
+export const createPointerTracker = (): PointerTracker => ({
+  point: null,
+  hoveredSlide: null,
+  hover: 0,
+});
+
+// Below this the eased values count as arrived
+const POINTER_EPSILON = 0.0001;
+
+const ORIGIN = new THREE.Vector2(0, 0);
+const SLIDE_PLANE = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+const planePoint = new THREE.Vector3();
+
+/** Where `ray` meets the plane the slides rest in, or null if it misses. */
+export const getPlanePoint = (ray: THREE.Ray) =>
+  ray.intersectPlane(SLIDE_PLANE, planePoint)
+    ? new THREE.Vector2(planePoint.x, planePoint.y)
+    : null;
+
+/**
+ * Eases the distortion center towards the pointer, or back to the middle
+ * without one, and fades the hover effect in over the hovered slide while
+ * `idle`. `options` of null turns both off. Returns whether the uniforms
+ * are still changing, so the loop keeps drawing.
+ */
+export const stepPointerEffects = (
+  tracker: PointerTracker,
+  uniforms: DistortionUniforms,
+  options: Required<PointerEffectsOptions> | null,
+  idle: boolean
+): boolean => {
+  const smoothing = options?.smoothing ?? 1;
+  const center = uniforms.uDistortionCenter.value;
+  const centerTarget =
+    options?.followCenter && tracker.point ? tracker.point : ORIGIN;
+  center.lerp(centerTarget, smoothing);
+  const centerMoving = center.distanceTo(centerTarget) > POINTER_EPSILON;
+  if (!centerMoving) center.copy(centerTarget);
+
+  const slide =
+    options && options.hover !== "none" && idle ? tracker.hoveredSlide : null;
+  let hoverTarget = 0;
+  if (options && slide && tracker.point) {
+    // The hovered slide's bounds, from its plane scaled to the image
+    const { width, height } = (slide.geometry as THREE.PlaneGeometry)
+      .parameters;
+    uniforms.uHoverSlide.value.set(
+      slide.position.x,
+      slide.position.y,
+      (width * Math.abs(slide.scale.x)) / 2,
+      (height * Math.abs(slide.scale.y)) / 2
+    );
+    uniforms.uHoverPoint.value.copy(tracker.point);
+    uniforms.uHoverTilt.value = options.hover === "tilt" ? 1 : 0;
+    hoverTarget = options.hoverStrength;
+  }
+  // Fading out keeps the last slide and point, so the effect settles in place
+  tracker.hover += (hoverTarget - tracker.hover) * smoothing;
+  const hoverMoving = Math.abs(hoverTarget - tracker.hover) > POINTER_EPSILON;
+  if (!hoverMoving) tracker.hover = hoverTarget;
+  uniforms.uHover.value = tracker.hover;
+
+  return centerMoving || hoverMoving;
+};
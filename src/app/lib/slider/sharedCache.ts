@@ -0,0 +1,72 @@
+/** A reference to a cached resource. */
+export interface SharedReference<T> {
+  value: T;
+  /**
+   * Drops this reference. The resource is disposed shortly after the last
+   * one goes, unless it is acquired again first. Later calls do nothing.
+   */
+  release: () => void;
+}
+
+/**
+ * Resources shared by every plane of every slider on the page, keyed by URL,
+ * so one shown on several planes loads once.
+ */
+export interface SharedCache<T> {
+  /** Takes a reference to the resource for `key`, creating it on first use. */
+  acquire: (key: string) => SharedReference<T>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  users: number;
+}
+
+/**
+ * `create` starts loading the resource for a key. It may call `forget` later,
+ * e.g. when loading fails, so the next acquire tries again instead of reusing
+ * it. `dispose` frees a resource once nothing references it.
+ */
+export const createSharedCache = <T>(
+  create: (key: string, forget: () => void) => T,
+  dispose: (value: T) => void
+): SharedCache<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const forget = (key: string, entry: CacheEntry<T>) => {
+    // A newer entry may have replaced it meanwhile
+    if (entries.get(key) === entry) entries.delete(key);
+  };
+
+  return {
+    acquire(key) {
+      let entry = entries.get(key);
+      if (!entry) {
+        const created: CacheEntry<T> = { value: null!, users: 0 };
+        created.value = create(key, () => forget(key, created));
+        entries.set(key, created);
+        entry = created;
+      }
+      entry.users++;
+      const current = entry;
+      let released = false;
+      return {
+        value: current.value,
+        release() {
+          if (released) return;
+          released = true;
+          current.users--;
+          if (current.users > 0) return;
+          // A slider rebuilding after a prop change, or StrictMode remounting
+          // it, releases everything and acquires it again in the same task.
+          // Disposing in a later task lets the new slides reuse what is cached
+          setTimeout(() => {
+            if (current.users > 0) return; // Acquired again meanwhile
+            forget(key, current);
+            dispose(current.value);
+          });
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Where the slider comes to rest after momentum:
+ * - `none`: wherever the momentum runs out
+ * - `nearest`: the slide closest to the resting position
+ * - `directional`: the next slide in the direction of travel
+ */
+export type SnapMode = "none" | "nearest" | "directional";
+
+/** Momentum speed (units per frame) below which snapping takes over. */
+export const SNAP_SPEED_THRESHOLD = 0.02;
+
+// Per-frame spring constants, tuned to settle in about a second without overshoot
+const SNAP_STIFFNESS = 0.08;
+const SNAP_DAMPING = 0.75;
+const SNAP_EPSILON = 0.0005;
+
+/** Spring driving the target position onto a slide boundary. */
+export interface SnapState {
+  /** Scroll position being snapped to, or null when no snap is running. */
+  target: number | null;
+  velocity: number;
+}
+
+export const createSnapState = (): SnapState => ({ target: null, velocity: 0 });
+
+/** Whether `position` already sits on a slide boundary. */
+export const isSnapped = (position: number, slideUnit: number) =>
+  Math.abs(position - Math.round(position / slideUnit) * slideUnit) <
+  SNAP_EPSILON;
+
+/**
+ * Picks the boundary to snap to. `direction` is the sign of the most recent
+ * movement of the scroll position.
+ */
+export const getSnapTarget = (
+  position: number,
+  slideUnit: number,
+  mode: Exclude<SnapMode, "none">,
+  direction: number
+) => {
+  const slidePosition = position / slideUnit;
+  if (mode === "directional" && direction !== 0) {
+    return (
+      (direction > 0 ? Math.ceil(slidePosition) : Math.floor(slidePosition)) *
+      slideUnit
+    );
+  }
+  return Math.round(slidePosition) * slideUnit;
+};
+
+/**
+ * Advances the spring by one frame and returns the new target position.
+ * Clears `state.target` once the spring has come to rest.
+ */
+export const stepSnap = (state: SnapState, position: number): number => {
+  if (state.target === null) return position;
+  state.velocity =
+    (state.velocity + (state.target - position) * SNAP_STIFFNESS) *
+    SNAP_DAMPING;
+  const next = position + state.velocity;
+  if (
+    Math.abs(state.target - next) < SNAP_EPSILON &&
+    Math.abs(state.velocity) < SNAP_EPSILON
+  ) {
+    const target = state.target;
+    state.target = null;
+    state.velocity = 0;
+    return target;
+  }
+  return next;
+};
+
+/** Stops a running snap, e.g. when the user grabs the slider again. */
+export const cancelSnap = (state: SnapState) => {
+  state.target = null;
+  state.velocity = 0;
+};
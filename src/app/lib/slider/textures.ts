@@ -0,0 +1,75 @@
+import * as THREE from "three";
+import { createSharedCache } from "./sharedCache";
+
+/** A reference to a shared texture. Release it when the slide goes away. */
+export interface TextureHandle {
+  /** Resolves with the shared texture, or rejects when it fails to load. */
+  promise: Promise<THREE.Texture>;
+  /** The texture, once loaded; lets a rebuilt slide skip the placeholder. */
+  readonly texture: THREE.Texture | null;
+  /**
+   * Drops this reference. The texture is disposed shortly after the last
+   * one goes, unless it is acquired again first.
+   */
+  release: () => void;
+}
+
+interface TextureEntry {
+  promise: Promise<THREE.Texture>;
+  texture: THREE.Texture | null;
+}
+
+const loader = new THREE.TextureLoader();
+
+const load = (url: string, forget: () => void): TextureEntry => {
+  const entry: TextureEntry = { promise: null!, texture: null };
+  entry.promise = loader.loadAsync(url).then(
+    (texture) => {
+      texture.colorSpace = THREE.SRGBColorSpace;
+      entry.texture = texture;
+      return texture;
+    },
+    (err) => {
+      forget();
+      throw err;
+    }
+  );
+  return entry;
+};
+
+const cache = createSharedCache(load, (entry) => {
+  // A load still in flight is disposed once it lands
+  entry.promise.then(
+    (texture) => texture.dispose(),
+    () => {}
+  );
+});
+
+/**
+ * Takes a reference to the texture for `url`, loading it on first use. When
+ * given, `manager` tracks this request even if the texture is already cached,
+ * so each slider reports its own progress.
+ */
+export const acquireTexture = (
+  url: string,
+  manager?: THREE.LoadingManager
+): TextureHandle => {
+  const { value: entry, release } = cache.acquire(url);
+  if (manager) {
+    manager.itemStart(url);
+    entry.promise.then(
+      () => manager.itemEnd(url),
+      () => {
+        manager.itemError(url);
+        manager.itemEnd(url);
+      }
+    );
+  }
+  return {
+    promise: entry.promise,
+    get texture() {
+      return entry.texture;
+    },
+    release,
+  };
+};
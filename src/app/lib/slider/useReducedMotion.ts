@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * `auto` follows the user's `prefers-reduced-motion` setting as it changes;
+ * `always` and `never` override it.
+ */
+export type ReducedMotionProp = "auto" | "always" | "never";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+const subscribe = (onChange: () => void) => {
+  const query = window.matchMedia(QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+};
+
+const getSnapshot = () => window.matchMedia(QUERY).matches;
+
+// Server rendering assumes full motion, as there is no preference to read
+const getServerSnapshot = () => false;
+
+/** Whether the slider should run in reduced motion mode. */
+export const useReducedMotion = (
+  reducedMotion: ReducedMotionProp = "auto"
+): boolean => {
+  const prefersReduced = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+  if (reducedMotion === "always") return true;
+  if (reducedMotion === "never") return false;
+  return prefersReduced;
+};
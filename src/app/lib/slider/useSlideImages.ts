@@ -0,0 +1,22 @@
+import { useRef } from "react";
+import { SliderImage, createNumberedImages } from "./images";
+
+/**
+ * Returns the image list to render, keeping the same array identity for as
+ * long as the content is unchanged so inline `images` literals don't rebuild
+ * the scene on every render.
+ */
+export const useSlideImages = (
+  images: SliderImage[] | undefined,
+  imagesAvailable: number
+): SliderImage[] => {
+  const cache = useRef<{ key: string; images: SliderImage[] } | null>(null);
+  const key = images ? JSON.stringify(images) : `numbered:${imagesAvailable}`;
+  if (!cache.current || cache.current.key !== key) {
+    cache.current = {
+      key,
+      images: images ?? createNumberedImages(imagesAvailable),
+    };
+  }
+  return cache.current.images;
+};
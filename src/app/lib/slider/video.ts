@@ -0,0 +1,116 @@
+import * as THREE from "three";
+import { createSharedCache } from "./sharedCache";
+
+/** A reference to a shared muted, inline, looping video drawing into a texture. */
+export interface SlideVideo {
+  texture: THREE.VideoTexture;
+  /** Resolves with the aspect ratio (`videoWidth / videoHeight`) once metadata loads. */
+  metadata: Promise<number>;
+  /** Resolves once the first frame can be drawn; rejects when the video fails. */
+  ready: Promise<void>;
+  /**
+   * Asks for playback or lets go of it. The video plays while any of its
+   * references asks; asking again retries playback the browser blocked.
+   */
+  setPlaying: (playing: boolean) => void;
+  /**
+   * Drops this reference. The video stops and frees its buffers shortly
+   * after the last one goes, unless it is acquired again first.
+   */
+  release: () => void;
+}
+
+interface VideoEntry {
+  video: HTMLVideoElement;
+  texture: THREE.VideoTexture;
+  metadata: Promise<number>;
+  ready: Promise<void>;
+  /** References currently asking for playback. */
+  players: number;
+}
+
+const load = (src: string, forget: () => void): VideoEntry => {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous"; // Cross-origin frames can't be uploaded otherwise
+  video.muted = true; // Browsers only let muted videos start without a gesture
+  video.playsInline = true; // Keep iOS from going fullscreen
+  video.loop = true;
+  video.preload = "auto";
+  video.src = src;
+
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  const failed = new Promise<never>((_, reject) =>
+    video.addEventListener("error", () => reject(video.error), { once: true })
+  );
+  const metadata = Promise.race([
+    new Promise<number>((resolve) =>
+      video.addEventListener(
+        "loadedmetadata",
+        () => resolve(video.videoWidth / video.videoHeight),
+        { once: true }
+      )
+    ),
+    failed,
+  ]);
+  const ready = Promise.race([
+    new Promise<void>((resolve) =>
+      video.addEventListener("loadeddata", () => resolve(), { once: true })
+    ),
+    failed,
+  ]);
+  // Rejections are handled by whoever awaits it
+  metadata.catch(() => {});
+  ready.catch(forget);
+
+  return { video, texture, metadata, ready, players: 0 };
+};
+
+const cache = createSharedCache(load, ({ video, texture }) => {
+  video.pause();
+  video.removeAttribute("src");
+  video.load();
+  texture.dispose();
+});
+
+const updatePlayback = (entry: VideoEntry) => {
+  const { video } = entry;
+  if (entry.players > 0) {
+    // Blocked or interrupted playback pauses again; the next call retries
+    if (video.paused && !video.error) video.play().catch(() => {});
+  } else if (!video.paused) {
+    video.pause();
+  }
+};
+
+/**
+ * Takes a reference to the video for `src`, loading it on first use. Planes
+ * showing the same clip share one video, so it downloads once.
+ */
+export const acquireSlideVideo = (src: string): SlideVideo => {
+  const { value: entry, release } = cache.acquire(src);
+  let playing = false;
+  let released = false;
+  return {
+    texture: entry.texture,
+    metadata: entry.metadata,
+    ready: entry.ready,
+    setPlaying(next) {
+      if (released) return;
+      if (next !== playing) {
+        playing = next;
+        entry.players += next ? 1 : -1;
+      }
+      updatePlayback(entry);
+    },
+    release() {
+      if (released) return;
+      if (playing) entry.players--;
+      playing = false;
+      released = true;
+      updatePlayback(entry);
+      release();
+    },
+  };
+};
@@ -1,39 +1,49 @@
 import ThreeSlider from "./components/ThreeSlider";
 import ThreeSliderDraggable from "./components/ThreeSliderDraggable";
+import SliderCanvasProvider from "./components/SliderCanvasProvider";
+import type { SliderImage } from "./lib/slider/images";
+
+const portraitImages: SliderImage[] = [
+  { src: "/imgs/1.jpg", alt: "Portrait 1" },
+  { src: "/imgs/2.jpg", alt: "Portrait 2" },
+  { src: "/imgs/3.jpg", alt: "Portrait 3" },
+];
 
 export default function Home() {
   return (
-    <main className="p-8 space-y-12">
-      {/* ... Header ... */}
+    // One WebGL context for all the sliders below
+    <SliderCanvasProvider>
+      <main className="p-8 space-y-12">
+        {/* ... Header ... */}
 
-      <section>
-        <h2 className="text-2xl mb-4">Default Slider</h2>
-        <ThreeSliderDraggable /> {/* Uses default props */}
-      </section>
+        <section>
+          <h2 className="text-2xl mb-4">Default Slider</h2>
+          <ThreeSliderDraggable /> {/* Uses default props */}
+        </section>
 
-      <section>
-        <h2 className="text-2xl mb-4">Portrait Slides (Cover Fit)</h2>
-        <ThreeSliderDraggable
-          slideWidth={1.2} // Narrower
-          slideHeight={2.0} // Taller
-          gap={0.05} // Smaller gap
-          imageFitMode="cover" // Make images cover the slide area
-          imagesAvailable={3} // Assuming only images 1.jpg, 2.jpg, 3.jpg are relevant here
-          slideCount={8} // Fewer planes in the loop
-        />
-      </section>
+        <section>
+          <h2 className="text-2xl mb-4">Portrait Slides (Cover Fit)</h2>
+          <ThreeSliderDraggable
+            slideWidth={1.2} // Narrower
+            slideHeight={2.0} // Taller
+            gap={0.05} // Smaller gap
+            imageFitMode="cover" // Make images cover the slide area
+            images={portraitImages}
+            slideCount={9} // Fewer planes in the loop, three passes of the list
+          />
+        </section>
 
-      <section>
-        <h2 className="text-2xl mb-4">Wider Slides (Contain Fit)</h2>
-        <ThreeSliderDraggable
-          slideWidth={4.0}
-          slideHeight={1.2}
-          gap={0.2}
-          imageFitMode="contain" // Default, but explicit
-        />
-      </section>
+        <section>
+          <h2 className="text-2xl mb-4">Wider Slides (Contain Fit)</h2>
+          <ThreeSliderDraggable
+            slideWidth={4.0}
+            slideHeight={1.2}
+            gap={0.2}
+            imageFitMode="contain" // Default, but explicit
+          />
+        </section>
 
-      {/* <section>
+        {/* <section>
         <h2 className="text-2xl mb-4">Portrait Slides (Cover Fit)</h2>
         <ThreeSlider
           slideWidth={1.2} // Narrower
@@ -45,7 +55,8 @@ export default function Home() {
         />
       </section> */}
 
-      {/* ... Footer ... */}
-    </main>
+        {/* ... Footer ... */}
+      </main>
+    </SliderCanvasProvider>
   );
 }